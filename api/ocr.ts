@@ -1,12 +1,30 @@
-// api/ocr.js
+// api/ocr.ts
 // Vercel Serverless Function — OCR thin spike
-// CommonJS ONLY
+// TypeScript so it can import lib/ocrPost + lib/ocrProvider directly; the
+// Vercel Node runtime compiles it and the lib/*.ts it imports to CommonJS.
+
+import { createHash } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ocrPost, ocrPostPage } from "../lib/ocrPost";
+import { getOcrProvider, type OcrProviderError } from "../lib/ocrProvider";
+import { isSubscribedForRequest } from "../lib/entitlement.server.cjs";
+
+// The helpers Vercel's Node runtime adds to req / res
+type ApiRequest = IncomingMessage & { body?: unknown };
+type ApiResponse = ServerResponse & {
+  status(code: number): ApiResponse;
+  json(body: unknown): ApiResponse;
+};
 
-const { ocrPost } = require("../lib/ocrPost.server.cjs");
-const { isSubscribedForRequest } = require("../lib/entitlement.server.cjs");
+type OcrRequestBody = {
+  useStub?: unknown;
+  imageBase64?: unknown;
+  debug?: unknown;
+  record?: unknown;
+};
 
-async function readJsonBody(req) {
-  if (req.body && typeof req.body === "object") return req.body;
+async function readJsonBody(req: ApiRequest): Promise<OcrRequestBody | null> {
+  if (req.body && typeof req.body === "object") return req.body as OcrRequestBody;
 
   if (typeof req.body === "string") {
     try {
@@ -27,7 +45,7 @@ async function readJsonBody(req) {
   }
 }
 
-module.exports = async function handler(req, res) {
+export default async function handler(req: ApiRequest, res: ApiResponse) {
   try {
     // --- CORS (preflight-safe) ---
     const origin = req.headers.origin;
@@ -76,7 +94,9 @@ module.exports = async function handler(req, res) {
 
       try {
 
-        console.log("[ocr] KV available:", !!require("@vercel/kv").kv);
+        // Loaded here so dev and bypassed requests never touch KV
+        const { kv } = await import("@vercel/kv");
+        console.log("[ocr] KV available:", !!kv);
         
         subscribed = await isSubscribedForRequest(req, res);
       } catch (err) {
@@ -123,19 +143,12 @@ module.exports = async function handler(req, res) {
     }
 
     // --- REAL MODE ---
-    const key = process.env.OCR_key;
-    if (!key) {
-      return res.status(500).json({
-        error: "Missing OCR_key env var",
-      });
-    }
-
-    let imageBase64 = body.imageBase64;
-    if (typeof imageBase64 !== "string") {
+    const rawImage = body.imageBase64;
+    if (typeof rawImage !== "string") {
       return res.status(400).json({ error: "Missing imageBase64" });
     }
 
-    imageBase64 = imageBase64.replace(
+    const imageBase64 = rawImage.replace(
       /^data:image\/[a-zA-Z0-9.+-]+;base64,/,
       ""
     );
@@ -144,48 +157,44 @@ module.exports = async function handler(req, res) {
       return res.status(400).json({ error: "imageBase64 too small" });
     }
 
-    const payload = {
-      requests: [
-        {
-          image: { content: imageBase64 },
-          features: [{ type: "DOCUMENT_TEXT_DETECTION", maxResults: 1 }],
-        },
-      ],
-    };
-
-    const visionRes = await fetch(
-      `https://vision.googleapis.com/v1/images:annotate?key=${key}`,
-      {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      }
-    );
-
-    const raw = await visionRes.text();
-    if (!visionRes.ok) {
-      return res.status(visionRes.status).json({
-        error: "VISION_ERROR",
+    // OCR_PROVIDER picks the engine (vision | tesseract | fixture)
+    let page;
+    try {
+      const provider = await getOcrProvider();
+      page = await provider.recognize(imageBase64);
+    } catch (e) {
+      const err = e as Partial<OcrProviderError>;
+      if (!err?.code) throw e;
+      console.error("[ocr] provider failed:", err);
+      return res.status(err.status || 500).json({
+        error: err.code,
+        message: err.message,
       });
     }
 
-    const json = JSON.parse(raw);
-    const r0 = json?.responses?.[0];
-    if (!r0) {
-      return res.status(500).json({ error: "Bad Vision response" });
+    const debug = body?.debug === true;
+    const result = ocrPostPage(page, { debug });
+
+    // 🎥 FIXTURE RECORDING (dev only): raw Vision payload + image hash
+    if (DEV && process.env.OCR_RECORD === "1" && body?.record === true && page.vision) {
+      result.recording = {
+        imageSha256: createHash("sha256")
+          .update(Buffer.from(imageBase64, "base64"))
+          .digest("hex"),
+        vision: page.vision,
+      };
     }
 
-    const debug = body?.debug === true;
-    return res.status(200).json(ocrPost(r0, { debug }));
+    return res.status(200).json(result);
 
   } catch (err) {
   console.error("OCR SERVER ERROR:", err);
+  // Details stay in the server log; clients only get a generic error
   return res.status(500).json({
     error: "SERVER_ERROR",
-    message: String(err?.message || err),
-    stack: err?.stack,
+    message: "OCR failed. Please try again.",
   });
 }
 
 
-};
+}
@@ -2,28 +2,98 @@
 import { Link, useLocalSearchParams } from "expo-router";
 import { useMemo, useRef, useState } from "react";
 import { Animated, Platform, Pressable, Text, TextInput, View } from "react-native";
-import { copyToClipboard } from "../lib/clipboard";
-import { downloadTextFile } from "../lib/exportDownload.web";
+import { copyRichToClipboard, copyToClipboard } from "../lib/clipboard";
+import { downloadBinaryFile, downloadTextFile } from "../lib/exportDownload";
 import { getCurrentLabel, updateCurrentLabel } from "../lib/labelStore";
-import type { Basis } from "../lib/nutritionFormat";
+import type { Basis, ViewBasis } from "../lib/nutritionFormat";
 import {
+  availableBases,
+  basisLabel,
   buildCSV,
+  buildHTMLTable,
+  buildJSON,
+  buildJSONLD,
   buildMarkdown,
   buildPlainText,
 } from "../lib/nutritionFormat";
-
-type ExportFormat = "plain" | "markdown" | "csv";
+import {
+  DAILY_VALUE_TABLES,
+  getDailyValueTable,
+  isDailyValueTableId,
+  type DailyValueTableId,
+} from "../lib/dailyValues";
+import { EXPORT_JSON_SCHEMA } from "../lib/exportSchema";
+import { EXPORT_LOCALES, isExportLocaleId, type ExportLocaleId } from "../lib/exportLocale";
+import { buildOffJSON } from "../lib/openFoodFacts";
+import { buildFhirNutritionIntakeJSON, buildFhirNutritionProductJSON } from "../lib/fhir";
+import { buildPDF } from "../lib/pdfHandout";
+import { buildXLSX, XLSX_MIME } from "../lib/xlsxExport";
+import {
+  EXAMPLE_TEMPLATE,
+  renderTemplate,
+  templateError,
+  type ExportTemplate,
+} from "../lib/exportTemplate";
+import { deleteTemplate, getTemplates, newTemplateId, saveTemplate } from "../lib/templateStore";
+import { renderPanelHTML, renderPanelSVG, type PanelStyle } from "../lib/nutritionPanel";
+import {
+  buildTrackerCSV,
+  isTrackerProfileId,
+  TRACKER_PROFILES,
+  type TrackerProfileId,
+} from "../lib/trackerCsv";
+import {
+  isRoundingProfileId,
+  ROUNDING_PROFILES,
+  type RoundingProfileId,
+} from "../lib/rounding";
+
+type ExportFormat = "plain" | "markdown" | "csv" | "json" | "jsonld" | "off" | "fhir" | "pdf";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  plain: "Plain Text",
+  markdown: "List",
+  csv: "CSV",
+  json: "JSON",
+  jsonld: "JSON-LD",
+  off: "Open Food Facts",
+  fhir: "FHIR",
+  pdf: "PDF",
+};
+
+// Download type for a template's extension; anything else is plain text
+const TEMPLATE_MIMES: Record<string, string> = {
+  csv: "text/csv",
+  md: "text/markdown",
+  json: "application/json",
+  html: "text/html",
+};
+
+const PANEL_STYLES: { id: PanelStyle; label: string }[] = [
+  { id: "fda", label: "US Nutrition Facts" },
+  { id: "fsanz", label: "AU/NZ NIP" },
+];
 
 export default function Export() {
   const params = useLocalSearchParams<{ basis?: string }>();
 
-  const initialBasis: Basis =
-    params.basis === "per_100g" ? "per_100g" : "per_serve";
+  const initialBasis: ViewBasis =
+    params.basis === "per_100g" ||
+    params.basis === "per_100ml" ||
+    params.basis === "per_unit" ||
+    params.basis === "per_pack"
+      ? params.basis
+      : "per_serve";
 
-  const [basis, setBasis] = useState<Basis>(initialBasis);
+  const [basis, setBasis] = useState<ViewBasis>(initialBasis);
   const [format, setFormat] = useState<ExportFormat>("plain");
+  const [panelStyle, setPanelStyle] = useState<PanelStyle>("fda");
+  const [templates, setTemplates] = useState<ExportTemplate[]>(getTemplates);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ExportTemplate | null>(null);
   const [copied, setCopied] = useState(false);
-  const [copiedHintVisible, setCopiedHintVisible] = useState(false);
+  const [copyFailed, setCopyFailed] = useState(false);
+  const [saveError, setSaveError] = useState<"SHARING_UNAVAILABLE" | "SAVE_FAILED" | null>(null);
   const hintOpacity = useRef(new Animated.Value(0)).current;
 
     const defaultFilename = useMemo(() => {
@@ -50,6 +120,41 @@ export default function Export() {
     : null;
 
 
+  const persistedRounding =
+    Platform.OS === "web" ? localStorage.getItem("nutricopy.exportRounding") : null;
+
+  const [rounding, setRounding] = useState<RoundingProfileId>(
+    isRoundingProfileId(persistedRounding) ? persistedRounding : "default"
+  );
+
+  // Same key as Review, so the %DV choice carries over
+  const persistedDailyValues =
+    Platform.OS === "web" ? localStorage.getItem("nutricopy.dailyValues") : null;
+
+  const [dailyValues, setDailyValues] = useState<DailyValueTableId | null>(
+    isDailyValueTableId(persistedDailyValues) ? persistedDailyValues : null
+  );
+
+  // Numbers, units and nutrient names in the readable formats
+  const persistedLocale =
+    Platform.OS === "web" ? localStorage.getItem("nutricopy.exportLocale") : null;
+
+  const [locale, setLocale] = useState<ExportLocaleId>(
+    isExportLocaleId(persistedLocale) ? persistedLocale : "en"
+  );
+
+  // Consumption CSV layout: NutriCopy's own, or a tracker's diary columns
+  const persistedTracker =
+    Platform.OS === "web" ? localStorage.getItem("nutricopy.trackerCsv") : null;
+
+  const [tracker, setTracker] = useState<TrackerProfileId | null>(
+    isTrackerProfileId(persistedTracker) ? persistedTracker : null
+  );
+
+  // FHIR NutritionIntake subject, e.g. "Patient/123"; not persisted, it identifies a person
+  const [patientRef, setPatientRef] = useState("");
+
+
 // --- Export math source ---
 const customGrams = label?.consumption?.customGrams;
 const customServes = label?.consumption?.customServes;
@@ -123,34 +228,117 @@ const effectiveCustomServes =
   }
 
   /* ---------- Normal export ---------- */
+  const bases = availableBases(label);
+  const nextBasis = bases[(bases.findIndex((b) => b === basis) + 1) % bases.length];
+
+  const activeTemplate = templates.find((t) => t.id === templateId) ?? null;
+  const builtinFormat = activeTemplate ? null : format;
+  // A saved template can still fail to parse (e.g. edited in storage); nothing to export then
+  const activeTemplateError = activeTemplate ? templateError(activeTemplate.body) : null;
+
+  // The FHIR builders validate and throw; the error replaces the preview
+  function buildFhir() {
+    if (!label || activeTemplate || format !== "fhir") return null;
+
+    try {
+      const subject = patientRef.trim() ? { reference: patientRef.trim() } : undefined;
+      const json = isConsumption
+        ? buildFhirNutritionIntakeJSON(label, effectiveCustomGrams, effectiveCustomServes, subject)
+        : buildFhirNutritionProductJSON(label);
+      return { json, error: null };
+    } catch (e) {
+      return { json: "", error: e instanceof Error ? e.message : "FHIR_INVALID" };
+    }
+  }
+
+  const fhir = buildFhir();
+  const fhirJson = fhir?.json ?? "";
+  const fhirError = fhir?.error ?? null;
+  const exportBlocked = !!(activeTemplateError || fhirError);
 
   const text = useMemo(() => {
   if (!label) return "";
 
+  if (activeTemplate) {
+    if (activeTemplateError) return "";
+    return renderTemplate(
+      activeTemplate.body,
+      label,
+      effectiveBasis,
+      effectiveCustomGrams,
+      effectiveCustomServes,
+      mode,
+      rounding,
+      dailyValues,
+      locale
+    );
+  }
+
   if (format === "markdown")
     return buildMarkdown(
       label,
       effectiveBasis,
       effectiveCustomGrams,
       effectiveCustomServes,
-      mode
+      mode,
+      rounding,
+      dailyValues,
+      locale
+    );
+
+  if (format === "json")
+    return buildJSON(
+      label,
+      effectiveBasis,
+      effectiveCustomGrams,
+      effectiveCustomServes,
+      mode,
+      rounding,
+      dailyValues
+    );
+
+  // OFF stores the label itself (per serve + per 100), not a view of it
+  if (format === "off") return buildOffJSON(label);
+
+  // FHIR: the product in label mode, the intake in consumption mode
+  if (format === "fhir") return fhirJson;
+
+  // schema.org has no %DV terms, so JSON-LD ignores dailyValues
+  if (format === "jsonld")
+    return buildJSONLD(
+      label,
+      effectiveBasis,
+      effectiveCustomGrams,
+      effectiveCustomServes,
+      mode,
+      rounding
     );
 
+  if (format === "csv" && isConsumption && tracker)
+    return buildTrackerCSV(label, tracker, effectiveCustomGrams, effectiveCustomServes);
+
   if (format === "csv")
     return buildCSV(
       label,
       effectiveBasis,
       effectiveCustomGrams,
       effectiveCustomServes,
-      mode
+      mode,
+      rounding,
+      dailyValues,
+      locale
     );
 
+  // Also the PDF preview: the handout itself can only be saved
   return buildPlainText(
     label,
     effectiveBasis,
     effectiveCustomGrams,
     effectiveCustomServes,
-    mode
+    mode,
+    rounding,
+    dailyValues,
+    locale
   );
 }, [
   label,
@@ -158,16 +346,29 @@ const effectiveCustomServes =
   effectiveBasis,
   effectiveCustomGrams,
   effectiveCustomServes,
+  mode,
+  rounding,
+  dailyValues,
+  locale,
+  isConsumption,
+  tracker,
+  activeTemplate,
+  activeTemplateError,
+  fhirJson,
 ]);
 
 
 
 
 
-  const copyLabel =
-    format === "markdown" ? "List" : format === "csv" ? "CSV" : "Plain Text";
+  // Native has no downloads folder: files go to the share sheet instead
+  const saveVerb = Platform.OS === "web" ? "Download" : "Share";
+
+  const copyLabel = activeTemplate ? activeTemplate.name : FORMAT_LABELS[format];
 
     async function handleCopy() {
+      if (exportBlocked) return;
+
       // --- time to export (first click only) ---
       if (
         label &&
@@ -179,7 +380,30 @@ const effectiveCustomServes =
         });
       }
 
-      await copyToClipboard(text);
+      // Table-shaped formats also go out as an HTML table for rich editors
+      const richCopy =
+        builtinFormat === "plain" ||
+        builtinFormat === "markdown" ||
+        (builtinFormat === "csv" && !(isConsumption && tracker));
+
+      let ok: boolean;
+      if (richCopy) {
+        const html = buildHTMLTable(
+          label,
+          effectiveBasis,
+          effectiveCustomGrams,
+          effectiveCustomServes,
+          mode,
+          rounding,
+          dailyValues,
+          locale
+        );
+        ok = await copyRichToClipboard(html, text);
+      } else {
+        ok = await copyToClipboard(text);
+      }
+      setCopyFailed(!ok);
+      if (!ok) return;
       setCopied(true);
 
       // reset opacity immediately
@@ -204,38 +428,166 @@ const effectiveCustomServes =
       setTimeout(() => setCopied(false), 2000);
     }
 
-      function getDownloadMeta() {
+      function safeBaseName() {
           const raw = filename.trim();
           const baseName = raw.length > 0 ? raw : defaultFilename;
 
-          const safeName = baseName
+          return baseName
             .toLowerCase()
             .replace(/[^a-z0-9]+/g, "-")
             .replace(/^-+|-+$/g, "");
+      }
+
+      function getDownloadMeta() {
+          const safeName = safeBaseName();
+
+        if (activeTemplate) {
+          const ext = activeTemplate.extension.replace(/^\./, "").toLowerCase() || "txt";
+          return { filename: `${safeName}.${ext}`, mime: TEMPLATE_MIMES[ext] ?? "text/plain" };
+        }
 
 
         if (format === "csv") {
           return { filename: `${safeName}.csv`, mime: "text/csv" };
         }
 
+        if (format === "json") {
+          return { filename: `${safeName}.json`, mime: "application/json" };
+        }
+
+        if (format === "off") {
+          return { filename: `${safeName}.off.json`, mime: "application/json" };
+        }
+
+        if (format === "fhir") {
+          return { filename: `${safeName}.fhir.json`, mime: "application/fhir+json" };
+        }
+
+        if (format === "jsonld") {
+          return { filename: `${safeName}.jsonld`, mime: "application/ld+json" };
+        }
+
         if (format === "markdown") {
           return { filename: `${safeName}.md`, mime: "text/markdown" };
         }
 
+        if (format === "pdf") {
+          return { filename: `${safeName}.pdf`, mime: "application/pdf" };
+        }
+
         return { filename: `${safeName}.txt`, mime: "text/plain" };
 
   }
 
-    function handleDownload() {
-    if (Platform.OS !== "web") return;
+  // Native writes the file and opens the share sheet, which can fail
+  async function save(download: () => void | Promise<void>) {
+    setSaveError(null);
+    try {
+      await download();
+    } catch (e) {
+      setSaveError(
+        e instanceof Error && e.message === "SHARING_UNAVAILABLE"
+          ? "SHARING_UNAVAILABLE"
+          : "SAVE_FAILED"
+      );
+    }
+  }
+
+  function handleDownload() {
+    if (exportBlocked) return;
 
     const { filename, mime } = getDownloadMeta();
 
-    downloadTextFile({
-      filename,
-      content: text,
-      mime,
-    });
+    // Handout: the table for the current view, plus what was eaten in consumption mode
+    const content =
+      builtinFormat === "pdf"
+        ? buildPDF(
+            label,
+            basis,
+            effectiveCustomGrams,
+            effectiveCustomServes,
+            rounding,
+            dailyValues,
+            locale
+          )
+        : text;
+
+    return save(() =>
+      downloadTextFile({
+        filename,
+        content,
+        mime,
+      })
+    );
+  }
+
+  // The schema JSON exports point at ($schema), for downstream validators
+  function handleDownloadSchema() {
+    return save(() =>
+      downloadTextFile({
+      filename: "nutricopy-export.schema.json",
+        content: JSON.stringify(EXPORT_JSON_SCHEMA, null, 2),
+        mime: "application/schema+json",
+      })
+    );
+  }
+
+  function handleSaveDraft() {
+    if (!draft || templateError(draft.body)) return;
+
+    const template = { ...draft, name: draft.name.trim() || "Template" };
+    saveTemplate(template);
+    setTemplates(getTemplates());
+    setTemplateId(template.id);
+    setDraft(null);
+  }
+
+  function handleDeleteDraft() {
+    if (!draft) return;
+
+    deleteTemplate(draft.id);
+    setTemplates(getTemplates());
+    if (templateId === draft.id) setTemplateId(null);
+    setDraft(null);
+  }
+
+  // Workbook: metadata + one sheet per basis (+ consumption in consumption mode)
+  function handleDownloadXLSX() {
+    if (!label) return;
+
+    return save(() =>
+      downloadBinaryFile({
+        filename: `${safeBaseName()}.xlsx`,
+        content: buildXLSX(label, effectiveCustomGrams, effectiveCustomServes, rounding, dailyValues),
+        mime: XLSX_MIME,
+      })
+    );
+  }
+
+  // Printable panel from the label as stored (always per serve, panel rounding)
+  function handleDownloadPanel(kind: "html" | "svg") {
+    if (!label) return;
+
+    const suffix = panelStyle === "fda" ? "nutrition-facts" : "nip";
+    return save(() =>
+      downloadTextFile({
+        filename: `${safeBaseName()}-${suffix}.${kind}`,
+        content: kind === "html" ? renderPanelHTML(label, panelStyle) : renderPanelSVG(label, panelStyle),
+        mime: kind === "html" ? "text/html" : "image/svg+xml",
+      })
+    );
+  }
+
+  function handlePrintPanel() {
+    if (Platform.OS !== "web" || !label) return;
+
+    const w = window.open("", "_blank");
+    if (!w) return; // popup blocked
+
+    w.document.write(renderPanelHTML(label, panelStyle));
+    w.document.close();
+    w.focus();
+    w.print();
   }
 
 
@@ -310,14 +662,10 @@ const effectiveCustomServes =
 
       {/* Basis toggle */}
       <Pressable
-        onPress={() =>
-          setBasis(basis === "per_serve" ? "per_100g" : "per_serve")
-        }
+        onPress={() => setBasis(nextBasis)}
         style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
       >
-        <Text>
-          {basis === "per_serve" ? "View per 100 g" : "View per serve"}
-        </Text>
+        <Text>View {basisLabel(nextBasis, label)}</Text>
         <Text style={{ fontSize: 12, color: "#666" }}>
           Tap to switch units
         </Text>
@@ -325,39 +673,256 @@ const effectiveCustomServes =
 
       {/* Format toggle */}
       <View style={{ flexDirection: "row", gap: 8 }}>
-        {(["plain", "markdown", "csv"] as ExportFormat[]).map((f) => (
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
           <Pressable
             key={f}
-            onPress={() => setFormat(f)}
+            onPress={() => {
+              setFormat(f);
+              setTemplateId(null);
+            }}
             style={{
               padding: 10,
               borderWidth: 1,
               borderRadius: 8,
-              backgroundColor: format === f ? "#eee" : "transparent",
+              backgroundColor: builtinFormat === f ? "#eee" : "transparent",
             }}
           >
-            <Text>
-              {f === "plain" ? "Plain Text" : f === "markdown" ? "List" : "CSV"}
-            </Text>
+            <Text>{FORMAT_LABELS[f]}</Text>
           </Pressable>
         ))}
       </View>
 
-      {/* Preview */}
-      <Text selectable style={{ fontFamily: "monospace" }}>
-        {text}
-      </Text>
+      {/* Saved templates (extra formats) */}
+      <View style={{ gap: 6 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>Templates</Text>
+        <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+          {templates.map((t) => (
+            <Pressable
+              key={t.id}
+              onPress={() => setTemplateId(t.id)}
+              onLongPress={() => setDraft(t)}
+              style={{
+                padding: 10,
+                borderWidth: 1,
+                borderRadius: 8,
+                backgroundColor: templateId === t.id ? "#eee" : "transparent",
+              }}
+            >
+              <Text>{t.name}</Text>
+            </Pressable>
+          ))}
+          <Pressable
+            onPress={() =>
+              setDraft({ id: newTemplateId(), name: "", extension: "txt", body: EXAMPLE_TEMPLATE })
+            }
+            style={{ padding: 10, borderWidth: 1, borderRadius: 8, borderStyle: "dashed" }}
+          >
+            <Text>+ New template</Text>
+          </Pressable>
+        </View>
 
-      {/* Filename (web only) */}
-      {Platform.OS === "web" && (
-        <View style={{ gap: 4 }}>
-          <Text style={{ fontSize: 12, color: "#666" }}>
-            File name (Download)
+        {activeTemplate && !draft && (
+          <Pressable onPress={() => setDraft(activeTemplate)}>
+            <Text style={{ fontSize: 12, color: "#4c6ef5", textDecorationLine: "underline" }}>
+              Edit template
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {/* Template editor */}
+      {draft && (
+        <View style={{ gap: 6, padding: 12, borderWidth: 1, borderRadius: 8, borderColor: "#ddd" }}>
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            <TextInput
+              value={draft.name}
+              onChangeText={(name) => setDraft({ ...draft, name })}
+              placeholder="Template name"
+              style={{ flex: 1, padding: 10, borderWidth: 1, borderRadius: 8 }}
+            />
+            <TextInput
+              value={draft.extension}
+              onChangeText={(extension) => setDraft({ ...draft, extension })}
+              placeholder="txt"
+              autoCapitalize="none"
+              style={{ width: 70, padding: 10, borderWidth: 1, borderRadius: 8 }}
+            />
+          </View>
+          <TextInput
+            value={draft.body}
+            onChangeText={(body) => setDraft({ ...draft, body })}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={{
+              minHeight: 160,
+              padding: 10,
+              borderWidth: 1,
+              borderRadius: 8,
+              fontFamily: "monospace",
+              textAlignVertical: "top",
+            }}
+          />
+          <Text style={{ fontSize: 11, color: "#999" }}>
+            {"{{name}} {{serving}} {{basis}}, {{#rows}}{{label}}: {{text}} [{{confidence}}]{{/rows}}, {{protein_g.value}}, {{#consumption}}…{{/consumption}}"}
           </Text>
+          {templateError(draft.body) && (
+            <Text style={{ fontSize: 12, color: "#e74c3c" }}>{templateError(draft.body)}</Text>
+          )}
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            <Pressable
+              onPress={handleSaveDraft}
+              disabled={!!templateError(draft.body)}
+              style={{
+                padding: 10,
+                borderWidth: 1,
+                borderRadius: 8,
+                opacity: templateError(draft.body) ? 0.4 : 1,
+              }}
+            >
+              <Text>Save</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => setDraft(null)}
+              style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
+            >
+              <Text>Cancel</Text>
+            </Pressable>
+            {templates.some((t) => t.id === draft.id) && (
+              <Pressable
+                onPress={handleDeleteDraft}
+                style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
+              >
+                <Text style={{ color: "#e74c3c" }}>Delete</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Rounding profile */}
+      <View style={{ gap: 6 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>Rounding</Text>
+        <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+          {ROUNDING_PROFILES.map((p) => (
+            <Pressable
+              key={p.id}
+              onPress={() => {
+                setRounding(p.id);
+                if (Platform.OS === "web") {
+                  localStorage.setItem("nutricopy.exportRounding", p.id);
+                }
+              }}
+              style={{
+                padding: 10,
+                borderWidth: 1,
+                borderRadius: 8,
+                backgroundColor: rounding === p.id ? "#eee" : "transparent",
+              }}
+            >
+              <Text>{p.label}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* Daily values (opt-in) */}
+      <View style={{ gap: 6 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>Daily values</Text>
+        <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+          {[null, ...DAILY_VALUE_TABLES.map((t) => t.id)].map((id) => (
+            <Pressable
+              key={id ?? "off"}
+              onPress={() => {
+                setDailyValues(id);
+                if (Platform.OS === "web") {
+                  if (id) localStorage.setItem("nutricopy.dailyValues", id);
+                  else localStorage.removeItem("nutricopy.dailyValues");
+                }
+              }}
+              style={{
+                padding: 10,
+                borderWidth: 1,
+                borderRadius: 8,
+                backgroundColor: dailyValues === id ? "#eee" : "transparent",
+              }}
+            >
+              <Text>{id ? getDailyValueTable(id).label : "Off"}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* Export locale (readable formats; JSON, FHIR and XLSX stay "." decimal) */}
+      <View style={{ gap: 6 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>Number format & names</Text>
+        <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+          {EXPORT_LOCALES.map((l) => (
+            <Pressable
+              key={l.id}
+              onPress={() => {
+                setLocale(l.id);
+                if (Platform.OS === "web") {
+                  localStorage.setItem("nutricopy.exportLocale", l.id);
+                }
+              }}
+              style={{
+                padding: 10,
+                borderWidth: 1,
+                borderRadius: 8,
+                backgroundColor: locale === l.id ? "#eee" : "transparent",
+              }}
+            >
+              <Text>{l.label}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      {/* Tracker CSV layout (consumption only) */}
+      {builtinFormat === "csv" && isConsumption && (
+        <View style={{ gap: 6 }}>
+          <Text style={{ fontSize: 12, color: "#666" }}>CSV layout</Text>
+          <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+            {[null, ...TRACKER_PROFILES.map((p) => p.id)].map((id) => (
+              <Pressable
+                key={id ?? "nutricopy"}
+                onPress={() => {
+                  setTracker(id);
+                  if (Platform.OS === "web") {
+                    if (id) localStorage.setItem("nutricopy.trackerCsv", id);
+                    else localStorage.removeItem("nutricopy.trackerCsv");
+                  }
+                }}
+                style={{
+                  padding: 10,
+                  borderWidth: 1,
+                  borderRadius: 8,
+                  backgroundColor: tracker === id ? "#eee" : "transparent",
+                }}
+              >
+                <Text>
+                  {id ? TRACKER_PROFILES.find((p) => p.id === id)!.label : "NutriCopy"}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {tracker && (
+            <Text style={{ fontSize: 11, color: "#999" }}>
+              {TRACKER_PROFILES.find((p) => p.id === tracker)!.note}
+            </Text>
+          )}
+        </View>
+      )}
+
+      {builtinFormat === "fhir" && isConsumption && (
+        <View style={{ gap: 4 }}>
+          <Text style={{ fontSize: 12, color: "#666" }}>Patient reference</Text>
           <TextInput
-            value={filename}
-            onChangeText={setFilename}
-            placeholder="nutricopy-export"
+            value={patientRef}
+            onChangeText={setPatientRef}
+            placeholder="Patient/123"
+            autoCapitalize="none"
             style={{
               padding: 10,
               borderWidth: 1,
@@ -365,45 +930,213 @@ const effectiveCustomServes =
             }}
           />
           <Text style={{ fontSize: 11, color: "#999" }}>
-            Extension is added automatically
+            The NutritionIntake subject, as the receiving FHIR server knows the patient
           </Text>
         </View>
       )}
 
+      {/* Preview */}
+      {activeTemplateError ? (
+        <View
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            backgroundColor: "#fdecea",
+          }}
+        >
+          <Text style={{ color: "#b00020", fontWeight: "600" }}>
+            “{activeTemplate.name}” can’t be rendered: {activeTemplateError}
+          </Text>
+          <Text style={{ color: "#b00020", marginTop: 4 }}>
+            Long-press the template to fix it.
+          </Text>
+        </View>
+      ) : fhirError ? (
+        <View
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            backgroundColor: "#fdecea",
+          }}
+        >
+          <Text style={{ color: "#b00020", fontWeight: "600" }}>
+            {fhirError === "NO_SUBJECT"
+              ? "Add a patient reference to export the intake."
+              : "This FHIR resource didn’t pass validation."}
+          </Text>
+          {fhirError !== "NO_SUBJECT" && (
+            <Text style={{ color: "#b00020", marginTop: 4 }}>{fhirError}</Text>
+          )}
+        </View>
+      ) : (
+        <Text selectable style={{ fontFamily: "monospace" }}>
+          {text}
+        </Text>
+      )}
+
+      {/* Filename */}
+      <View style={{ gap: 4 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>
+          File name ({saveVerb})
+        </Text>
+        <TextInput
+          value={filename}
+          onChangeText={setFilename}
+          placeholder="nutricopy-export"
+          style={{
+            padding: 10,
+            borderWidth: 1,
+            borderRadius: 8,
+          }}
+        />
+        <Text style={{ fontSize: 11, color: "#999" }}>
+          Extension is added automatically
+        </Text>
+      </View>
+
 
 
 
 
 
-      {/* Copy */}
+      {/* Copy (PDF can only be saved) */}
+      {builtinFormat !== "pdf" && (
+        <Pressable
+          onPress={handleCopy}
+          disabled={exportBlocked}
+          style={{
+            padding: 12,
+            borderWidth: 1,
+            borderRadius: 8,
+            backgroundColor: copied ? "#e8f5e9" : "transparent",
+            opacity: exportBlocked ? 0.4 : 1,
+          }}
+        >
+          <Text>
+            {copied ? "Copied ✓" : `Copy (${copyLabel})`}
+          </Text>
+        </Pressable>
+      )}
+
+      {/* Download (web) / share sheet (native) */}
       <Pressable
-        onPress={handleCopy}
+        onPress={handleDownload}
+        disabled={exportBlocked}
         style={{
           padding: 12,
           borderWidth: 1,
           borderRadius: 8,
-          backgroundColor: copied ? "#e8f5e9" : "transparent",
+          opacity: exportBlocked ? 0.4 : 1,
         }}
       >
-        <Text>
-          {copied ? "Copied ✓" : `Copy (${copyLabel})`}
-        </Text>
+        <Text>{saveVerb} ({copyLabel})</Text>
       </Pressable>
 
-      {/* Download (web only) */}
-      {Platform.OS === "web" && (
-        <Pressable
-          onPress={handleDownload}
+      <Pressable
+        onPress={handleDownloadXLSX}
+        style={{
+          padding: 12,
+          borderWidth: 1,
+          borderRadius: 8,
+        }}
+      >
+        <Text>{saveVerb} Excel workbook (.xlsx)</Text>
+      </Pressable>
+
+      {copyFailed && (
+        <View
           style={{
             padding: 12,
-            borderWidth: 1,
             borderRadius: 8,
+            backgroundColor: "#fdecea",
           }}
         >
-          <Text>Download ({copyLabel})</Text>
+          <Text style={{ color: "#b00020", fontWeight: "600" }}>
+            We couldn’t copy this export.
+          </Text>
+          <Text style={{ color: "#b00020", marginTop: 4 }}>
+            Clipboard access was refused. Use {saveVerb} instead.
+          </Text>
+        </View>
+      )}
+
+      {saveError && (
+        <View
+          style={{
+            padding: 12,
+            borderRadius: 8,
+            backgroundColor: "#fdecea",
+          }}
+        >
+          <Text style={{ color: "#b00020", fontWeight: "600" }}>
+            {saveError === "SHARING_UNAVAILABLE"
+              ? "Sharing isn’t available on this device."
+              : "We couldn’t save this file."}
+          </Text>
+          <Text style={{ color: "#b00020", marginTop: 4 }}>
+            {saveError === "SHARING_UNAVAILABLE"
+              ? "Use Copy instead and paste the export where you need it."
+              : "Please try again."}
+          </Text>
+        </View>
+      )}
+
+      {builtinFormat === "json" && (
+        <Pressable onPress={handleDownloadSchema}>
+          <Text style={{ fontSize: 12, color: "#4c6ef5", textDecorationLine: "underline" }}>
+            {saveVerb} JSON Schema
+          </Text>
         </Pressable>
       )}
 
+      {/* Nutrition panel */}
+      {label && (
+        <View style={{ gap: 6 }}>
+          <Text style={{ fontSize: 12, color: "#666" }}>Nutrition panel</Text>
+          <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+            {PANEL_STYLES.map((p) => (
+              <Pressable
+                key={p.id}
+                onPress={() => setPanelStyle(p.id)}
+                style={{
+                  padding: 10,
+                  borderWidth: 1,
+                  borderRadius: 8,
+                  backgroundColor: panelStyle === p.id ? "#eee" : "transparent",
+                }}
+              >
+                <Text>{p.label}</Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+            <Pressable
+              onPress={() => handleDownloadPanel("html")}
+              style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
+            >
+              <Text>{saveVerb} HTML</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => handleDownloadPanel("svg")}
+              style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
+            >
+              <Text>{saveVerb} SVG</Text>
+            </Pressable>
+            {Platform.OS === "web" && (
+              <Pressable
+                onPress={handlePrintPanel}
+                style={{ padding: 10, borderWidth: 1, borderRadius: 8 }}
+              >
+                <Text>Print</Text>
+              </Pressable>
+            )}
+          </View>
+          <Text style={{ fontSize: 11, color: "#999" }}>
+            Per serve, with FDA or FSANZ rounding
+          </Text>
+        </View>
+      )}
+
 
 
       <View style={{ height: 18, marginTop: 6 }}>
@@ -420,22 +1153,6 @@ const effectiveCustomServes =
       </View>
 
 
-      {/* Ownership hint (appears after copy) */}
-      {copiedHintVisible && (
-        <Text
-          style={{
-            marginTop: 6,
-            fontSize: 12,
-            color: "#666",
-            textAlign: "center",
-            maxWidth: 420,
-          }}
-        >
-          Your data — unrestricted. Paste into sheets, notes, or any tracker.
-        </Text>
-      )}
-
-
       <Link href="/review" asChild>
         <Pressable style={{ padding: 12, borderWidth: 1, borderRadius: 8 }}>
           <Text>Back to Review</Text>
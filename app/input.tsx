@@ -10,20 +10,12 @@ import {
 import HoverPressable from "../components/HoverPressable";
 import { getCurrentLabel, setCurrentLabel } from "../lib/labelStore";
 import type { Confidence, LabelData, NutrientKey } from "../lib/mockLabel";
+import { NUTRIENTS, nutrientDepth } from "../lib/nutrients";
+import { formatHousehold } from "../lib/nutritionFormat";
+import { parseHouseholdMeasure } from "../lib/ocrPost";
 
 type Unit = "g" | "ml";
 
-const NUTRIENTS: Array<{ key: NutrientKey; label: string; unit: string }> = [
-  { key: "energy_kj", label: "Energy", unit: "kJ" },
-  { key: "energy_kcal", label: "Energy", unit: "kcal" },
-  { key: "protein_g", label: "Protein", unit: "g" },
-  { key: "carbs_g", label: "Carbohydrate", unit: "g" },
-  { key: "fat_g", label: "Fat", unit: "g" },
-  { key: "sugars_g", label: "Sugars", unit: "g" },
-  { key: "fibre_g", label: "Fibre", unit: "g" },
-  { key: "sodium_mg", label: "Sodium", unit: "mg" },
-];
-
 function toNumberOrNull(s: string) {
   const t = s.trim();
   if (!t) return null;
@@ -40,18 +32,23 @@ export default function Input() {
   const [servingUnit, setServingUnit] = useState<Unit>(
     existing?.servingSize.unit ?? "g"
   );
+  const [householdValue, setHouseholdValue] = useState<string>(
+    existing?.servingSize.household ? formatHousehold(existing.servingSize.household) : ""
+  );
+  const [servingsPerPackValue, setServingsPerPackValue] = useState<string>(
+    existing?.servingsPerPack ? String(existing.servingsPerPack) : ""
+  );
+  const [netValue, setNetValue] = useState<string>(
+    existing?.netQuantity ? String(existing.netQuantity.value) : ""
+  );
+  const [densityValue, setDensityValue] = useState<string>(
+    existing?.density ? String(existing.density) : ""
+  );
 
   const [values, setValues] = useState<Record<NutrientKey, string>>(() => {
-    const empty: Record<NutrientKey, string> = {
-      energy_kj: "",
-      energy_kcal: "",
-      protein_g: "",
-      carbs_g: "",
-      fat_g: "",
-      sugars_g: "",
-      fibre_g: "",
-      sodium_mg: "",
-    };
+    const empty = Object.fromEntries(
+      NUTRIENTS.map((n) => [n.key, ""])
+    ) as Record<NutrientKey, string>;
 
     if (!existing) return empty;
 
@@ -82,16 +79,37 @@ export default function Input() {
       const v = toNumberOrNull(values[n.key]);
       if (v == null) continue;
 
+      // Untouched values keep their scanned per-100 column + source
+      // (per100 is per 100 of the serving unit, so a unit switch drops it)
+      const prev = existing?.nutrients[n.key];
+      const same =
+        prev != null && prev.value === v && existing?.servingSize.unit === servingUnit;
+
       nutrients[n.key] = {
         value: v,
         unit: n.unit,
         confidence: defaultConfidence,
+        ...(same && prev.source ? { source: prev.source } : {}),
+        ...(same && prev.per100 ? { per100: prev.per100 } : {}),
       };
     }
 
+    const density = toNumberOrNull(densityValue);
+    const household = parseHouseholdMeasure(householdValue);
+    const servingsPerPack = toNumberOrNull(servingsPerPackValue);
+    const net = toNumberOrNull(netValue);
+
     return {
       basis: "per_serve",
-      servingSize: { value: serving, unit: servingUnit },
+      servingSize: {
+        value: serving,
+        unit: servingUnit,
+        ...(household ? { household } : {}),
+      },
+      ...(servingsPerPack != null && servingsPerPack > 0 ? { servingsPerPack } : {}),
+      // Net quantity is entered in the serving unit
+      ...(net != null && net > 0 ? { netQuantity: { value: net, unit: servingUnit } } : {}),
+      ...(density != null && density > 0 ? { density } : {}),
       nutrients,
     };
   }
@@ -110,10 +128,14 @@ export default function Input() {
   const name =
     typeof (existing as any)?.name === "string" ? (existing as any).name : undefined;
 
-  setCurrentLabel({
-    ...label,
-    ...(name ? { name } : {}),
-  });
+  // Manual corrections are what a recorded fixture should expect
+  setCurrentLabel(
+    {
+      ...label,
+      ...(name ? { name } : {}),
+    },
+    { recording: existing?.recording }
+  );
 
   router.push(path);
 }
@@ -132,7 +154,7 @@ export default function Input() {
           <Text style={{ fontSize: 24 }}>Manual Input</Text>
 
           <Text style={{ fontSize: 14, color: "#666" }}>
-            Enter nutrition per serving. Review/Export can switch to per 100 g.
+            Enter nutrition per serving. Review/Export can switch to per 100 g (or mL).
           </Text>
 
           {/* Serving size */}
@@ -173,10 +195,78 @@ export default function Input() {
             )}
           </View>
 
+          {/* Household measure + pack (optional) */}
+          <View style={{ gap: 6 }}>
+            <Text>Household measure (optional)</Text>
+            <TextInput
+              value={householdValue}
+              onChangeText={setHouseholdValue}
+              placeholder="e.g. 2 slices, 1 cup"
+              style={{
+                borderWidth: 1,
+                borderRadius: 8,
+                padding: 10,
+              }}
+            />
+          </View>
+
+          <View style={{ flexDirection: "row", gap: 8 }}>
+            <View style={{ gap: 6, flex: 1 }}>
+              <Text>Servings per pack</Text>
+              <TextInput
+                value={servingsPerPackValue}
+                onChangeText={setServingsPerPackValue}
+                keyboardType="numeric"
+                placeholder="optional"
+                style={{
+                  borderWidth: 1,
+                  borderRadius: 8,
+                  padding: 10,
+                }}
+              />
+            </View>
+            <View style={{ gap: 6, flex: 1 }}>
+              <Text>Net quantity ({servingUnit})</Text>
+              <TextInput
+                value={netValue}
+                onChangeText={setNetValue}
+                keyboardType="numeric"
+                placeholder="optional"
+                style={{
+                  borderWidth: 1,
+                  borderRadius: 8,
+                  padding: 10,
+                }}
+              />
+            </View>
+          </View>
+
+          {/* Density (optional) */}
+          <View style={{ gap: 6 }}>
+            <Text>Density (g/mL, optional)</Text>
+            <TextInput
+              value={densityValue}
+              onChangeText={setDensityValue}
+              keyboardType="numeric"
+              placeholder="e.g. 1.03 for milk"
+              style={{
+                borderWidth: 1,
+                borderRadius: 8,
+                padding: 10,
+              }}
+            />
+            <Text style={{ fontSize: 12, color: "#666" }}>
+              Lets Review/Export show both per 100 g and per 100 mL.
+            </Text>
+          </View>
+
           {/* Nutrients */}
           <View style={{ gap: 10 }}>
             {NUTRIENTS.map((n) => (
-              <View key={n.key} style={{ gap: 6 }}>
+              <View
+                key={n.key}
+                style={{ gap: 6, paddingLeft: nutrientDepth(n.key) * 16 }}
+              >
                 <Text>
                   {n.label} ({n.unit})
                 </Text>
@@ -2,10 +2,25 @@
 import { Link } from "expo-router";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { Animated, Platform, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { downloadTextFile } from "../lib/exportDownload";
 import { getCurrentLabel, setCurrentLabel } from "../lib/labelStore";
-import type { NutrientKey } from "../lib/mockLabel";
-import type { Basis } from "../lib/nutritionFormat";
-import { getReviewRows, servingSizeText } from "../lib/nutritionFormat";
+import { NUTRIENTS, nutrientDepth, nutrientFieldLabel } from "../lib/nutrients";
+import type { Basis, ViewBasis } from "../lib/nutritionFormat";
+import {
+  amountEatenLabel,
+  availableBases,
+  basisLabel,
+  getReviewRows,
+  per100Basis,
+  servingSizeText,
+} from "../lib/nutritionFormat";
+import {
+  DAILY_VALUE_TABLES,
+  getDailyValueTable,
+  isDailyValueTableId,
+  type DailyValueTableId,
+} from "../lib/dailyValues";
+import { buildOcrFixture } from "../lib/ocrFixture";
 
 
 const SHOW_OCR_OVERLAY = true; // dev-only, set false before commit
@@ -15,16 +30,9 @@ const SHOW_OCR_OVERLAY = true; // dev-only, set false before commit
    Constants
 ------------------------------ */
 
-const EXPECTED_NUTRIENTS: Array<{ key: NutrientKey; label: string }> = [
-  { key: "energy_kj", label: "Energy (kJ)" },
-  { key: "energy_kcal", label: "Energy (kcal)" },
-  { key: "protein_g", label: "Protein" },
-  { key: "fat_g", label: "Fat" },
-  { key: "carbs_g", label: "Carbohydrate" },
-  { key: "sugars_g", label: "Sugars" },
-  { key: "fibre_g", label: "Fibre" },
-  { key: "sodium_mg", label: "Sodium" },
-];
+// Core nutrients are always listed (with "Not detected"); the rest of the
+// registry only shows up when the label actually has them.
+const EXPECTED_NUTRIENTS = NUTRIENTS.filter((n) => n.core);
 
 // Expo sets __DEV__ in dev builds
 const DEV =
@@ -69,89 +77,30 @@ function filterRawLines(lines: string[]) {
   });
 }
 
-/**
- * Dev-only candidate extraction (line-based, no bounding boxes).
- * Goal: help you SEE whether values/units exist in raw text at all.
- * This is not “final parsing logic” — it’s instrumentation.
- */
-type DebugCandidate = {
-  lineIndex: number;
-  line: string;
-  raw: string;
-  value: number;
-  unit: string;
-};
-
-function normalizeUnit(u: string) {
-  const s = (u || "").trim();
-  if (!s) return "";
-  if (/^kj$/i.test(s)) return "kJ";
-  if (/^kcal$/i.test(s)) return "kcal";
-  if (/^cal$/i.test(s)) return "cal";
-  if (s === "µg") return "mcg";
-  return s.toLowerCase();
-}
-
-function extractCandidatesFromLines(lines: string[]): DebugCandidate[] {
-  const out: DebugCandidate[] = [];
-  const reCombined =
-    /(\d+(?:\.\d+)?)\s*(mg|g|kg|mcg|µg|ug|kj|kcal|cal|ml)\b/gi;
-
-  lines.forEach((rawLine, lineIndex) => {
-    const line = rawLine.trim();
-    if (!line) return;
-
-    reCombined.lastIndex = 0;
-    let m: RegExpExecArray | null;
-    while ((m = reCombined.exec(line)) !== null) {
-      const value = Number(m[1]);
-      if (!Number.isFinite(value)) continue;
-
-      out.push({
-        lineIndex,
-        line,
-        raw: m[0],
-        value,
-        unit: normalizeUnit(m[2]),
-      });
-    }
-
-    if (/calories/i.test(line) && !/kcal|cal\b/i.test(line)) {
-      const after = line.replace(/.*calories/i, "");
-      const num = after.match(/(\d+(?:\.\d+)?)/)?.[1];
-      if (num) {
-        const v = Number(num);
-        if (Number.isFinite(v)) {
-          out.push({
-            lineIndex,
-            line,
-            raw: num,
-            value: v,
-            unit: "",
-          });
-        }
-      }
-    }
-  });
-
-  const seen = new Set<string>();
-  return out.filter((c) => {
-    const key = `${c.lineIndex}::${c.raw}::${c.unit}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
-}
-
 /* -----------------------------
    Component
 ------------------------------ */
 
 export default function Review() {
 const [viewBasis, setViewBasis] =
-  useState<"per_serve" | "per_100g">("per_serve");
+  useState<ViewBasis>("per_serve");
 
 const [customGrams, setCustomGrams] = useState<number | null>(null);
+
+// Opt-in %DV column; shared with Export through localStorage
+const [dailyValues, setDailyValues] = useState<DailyValueTableId | null>(() => {
+  if (Platform.OS !== "web") return null;
+  const stored = localStorage.getItem("nutricopy.dailyValues");
+  return isDailyValueTableId(stored) ? stored : null;
+});
+
+function chooseDailyValues(next: DailyValueTableId | null) {
+  setDailyValues(next);
+  if (Platform.OS === "web") {
+    if (next) localStorage.setItem("nutricopy.dailyValues", next);
+    else localStorage.removeItem("nutricopy.dailyValues");
+  }
+}
 const [customServes, setCustomServes] = useState<number | null>(null);
 
 
@@ -163,7 +112,8 @@ const [showRaw, setShowRaw] = useState(false);
 const [showDebug, setShowDebug] = useState(false);
 
 // derived helpers (MUST come before use)
-const wantsServes = viewBasis === "per_serve";
+// Serves input everywhere except the per-100 views (those take an amount)
+const wantsServes = viewBasis !== "per_100g" && viewBasis !== "per_100ml";
 
 const displayBasis: Basis =
   customGrams != null || customServes != null ? "custom" : viewBasis;
@@ -189,7 +139,7 @@ const isPerServe = wantsServes;
 
     // Prefer grams when present (and show grams UI)
     if (Number.isFinite(storedGrams)) {
-      setViewBasis("per_100g");
+      setViewBasis(per100Basis(label));
       setCustomGrams(storedGrams as number);
       return;
     }
@@ -253,11 +203,15 @@ const isPerServe = wantsServes;
     const imageBase64 = (label as any).imageBase64;
     const fileNameOpt =
       typeof (label as any)?.fileName === "string" ? (label as any).fileName : undefined;
+    const recording = label.recording;
 
     setCurrentLabel(
       {
         basis: label.basis,
         servingSize: label.servingSize,
+        ...(label.servingsPerPack ? { servingsPerPack: label.servingsPerPack } : {}),
+        ...(label.netQuantity ? { netQuantity: label.netQuantity } : {}),
+        ...(label.density ? { density: label.density } : {}),
         nutrients: label.nutrients,
         ...(label.name ? { name: label.name } : {}),
         ...(hasGrams || hasServes
@@ -268,12 +222,13 @@ const isPerServe = wantsServes;
               },
             }
           : {}),
-      } as any,
+      },
       {
         rawLines,
         debug,
         imageBase64,
         fileName: fileNameOpt,
+        recording,
       }
     );
   }
@@ -294,26 +249,49 @@ const isPerServe = wantsServes;
     const imageBase64 = (label as any).imageBase64;
     const fileNameOpt =
       typeof (label as any)?.fileName === "string" ? (label as any).fileName : undefined;
+    const recording = label.recording;
 
     setCurrentLabel(
       {
         basis: label.basis,
         servingSize: label.servingSize,
+        ...(label.servingsPerPack ? { servingsPerPack: label.servingsPerPack } : {}),
+        ...(label.netQuantity ? { netQuantity: label.netQuantity } : {}),
+        ...(label.density ? { density: label.density } : {}),
         nutrients: label.nutrients,
         ...(name ? { name } : {}),
-      } as any,
+        ...(label.consumption ? { consumption: label.consumption } : {}),
+      },
       {
         rawLines,
         debug,
         imageBase64,
         fileName: fileNameOpt,
+        recording,
       }
     );
   }
 
+  function downloadFixture() {
+    if (!label?.recording || Platform.OS !== "web") return;
+
+    // Current (user-corrected) values become the fixture's expected LabelData
+    const fixture = buildOcrFixture(
+      label.fileName || label.recording.imageSha256.slice(0, 12),
+      label.recording,
+      label
+    );
+
+    downloadTextFile({
+      filename: `${fixture.name}.json`,
+      content: JSON.stringify(fixture, null, 2),
+      mime: "application/json",
+    });
+  }
+
   const tokens = label?.debug?.tokens ?? [];
-  const debug = (label as any)?.debug?.server;
-  const clientParse = (label as any)?.debug?.clientParse;
+  // Same candidates the parser used (lib/ocrPost debug payload)
+  const debugCandidates = label?.debug?.candidates ?? [];
 
 
   // ---- SAFE DEFAULTS (must exist even when label is null) ----
@@ -323,11 +301,6 @@ const isPerServe = wantsServes;
 
   const filteredRaw = useMemo(() => filterRawLines(rawLines), [rawLines]);
 
-  const debugCandidates = useMemo(
-    () => extractCandidatesFromLines(filteredRaw),
-    [filteredRaw]
-  );
-
 
   if (!label) {
     return (
@@ -443,7 +416,9 @@ const mostlyLowConfidence =
   label,
   displayBasis,
   wantsServes ? undefined : customGrams ?? undefined,
-  wantsServes ? customServes ?? undefined : undefined
+  wantsServes ? customServes ?? undefined : undefined,
+  "default",
+  dailyValues
 );
 
 
@@ -457,8 +432,9 @@ const mostlyLowConfidence =
     detectedCount > 0 && detectedCount < EXPECTED_NUTRIENTS.length;
 
 
-  const nextBasis = viewBasis === "per_serve" ? "per_100g" : "per_serve";
-  const toggleLabel = viewBasis === "per_serve" ? "View per 100 g" : "View per serve";
+  const bases = availableBases(label);
+  const nextBasis = bases[(bases.indexOf(viewBasis) + 1) % bases.length];
+  const toggleLabel = `View ${basisLabel(nextBasis, label)}`;
 
 
   return (
@@ -621,6 +597,29 @@ const mostlyLowConfidence =
         </Text>
       </Pressable>
 
+      {/* Daily values (opt-in, calculated from the values above) */}
+      <View style={{ gap: 6 }}>
+        <Text style={{ fontSize: 12, color: "#666" }}>Daily values</Text>
+        <View style={{ flexDirection: "row", gap: 8, flexWrap: "wrap" }}>
+          {[null, ...DAILY_VALUE_TABLES.map((t) => t.id)].map((id) => (
+            <Pressable
+              key={id ?? "off"}
+              onPress={() => chooseDailyValues(id)}
+              style={{
+                padding: 8,
+                borderWidth: 1,
+                borderRadius: 8,
+                backgroundColor: dailyValues === id ? "#eee" : "transparent",
+              }}
+            >
+              <Text style={{ fontSize: 12 }}>
+                {id ? getDailyValueTable(id).label : "Off"}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
       {label.servingSize.value >= 5 ? (
         <Text>Serving size: {servingSizeText(label, viewBasis)}</Text>
       ) : (
@@ -643,7 +642,7 @@ const mostlyLowConfidence =
             }}
           >
             <Text style={{ fontSize: 12, color: "#666" }}>
-              {wantsServes ? "Serves eaten" : "Grams eaten"} (optional)
+              {wantsServes ? "Serves eaten" : amountEatenLabel(label)} (optional)
             </Text>
 
             {(customGrams != null || customServes != null) && (
@@ -751,7 +750,11 @@ const mostlyLowConfidence =
   }
 >
 
-    {EXPECTED_NUTRIENTS.map((n) => {
+    {NUTRIENTS.filter(
+      (n) => n.core || label.nutrients?.[n.key] != null
+    ).map((n) => {
+      const indent = nutrientDepth(n.key) * 16;
+
       // prevent duplicate Energy rows
       if (n.key === "energy_kcal" && rows.some((r) => r.id === "energy")) {
         return null;
@@ -764,12 +767,21 @@ const mostlyLowConfidence =
 
       if (row) {
         return (
-          <View key={n.key} style={{ marginBottom: 12 }}>
+          <View key={n.key} style={{ marginBottom: 12, paddingLeft: indent }}>
             <Text style={{ lineHeight: 24 }}>
               {row.label}: {row.valueText}{" "}
+              {displayBasis !== "custom" && row.source === "calculated" && (
+                <Text style={{ fontSize: 12, color: "#999" }}>(calculated) </Text>
+              )}
               <Text style={{ color: confidenceColor(row.confidence) }}>
                 {confidenceDot(row.confidence)}
               </Text>
+              {dailyValues && row.percentText && (
+                <Text style={{ fontSize: 12, color: "#666" }}>
+                  {"  "}
+                  {row.percentText} {getDailyValueTable(dailyValues).term.slice(1)}
+                </Text>
+              )}
             </Text>
           </View>
         );
@@ -777,8 +789,10 @@ const mostlyLowConfidence =
 
 
       return (
-        <View key={n.key} style={{ marginBottom: 12 }}>
-          <Text style={{ color: "#999", lineHeight: 24 }}>{n.label}: —</Text>
+        <View key={n.key} style={{ marginBottom: 12, paddingLeft: indent }}>
+          <Text style={{ color: "#999", lineHeight: 24 }}>
+            {nutrientFieldLabel(n.key)}: —
+          </Text>
           <Text style={{ fontSize: 12, color: "#999" }}>Not detected</Text>
         </View>
       );
@@ -894,6 +908,25 @@ const mostlyLowConfidence =
               <Text style={{ fontSize: 12 }}>
                 Candidates: {debugCandidates.length}
               </Text>
+
+              {label.recording && Platform.OS === "web" && (
+                <Pressable
+                  onPress={downloadFixture}
+                  style={{
+                    marginTop: 6,
+                    padding: 8,
+                    borderWidth: 1,
+                    borderRadius: 8,
+                    borderColor: "#c9d6ff",
+                    backgroundColor: "#fff",
+                    alignSelf: "flex-start",
+                  }}
+                >
+                  <Text style={{ fontSize: 12, color: "#243a8f" }}>
+                    Download OCR fixture (fixtures/ocr)
+                  </Text>
+                </Pressable>
+              )}
             </View>
           )}
         </View>
@@ -1,38 +1,28 @@
 // lib/clipboard.ts
+// Native (iOS/Android); the web build uses clipboard.web.ts
+import * as Clipboard from "expo-clipboard";
+
 export async function copyToClipboard(text: string): Promise<boolean> {
-  // Web: modern Clipboard API
-  if (
-    typeof navigator !== "undefined" &&
-    navigator.clipboard &&
-    typeof navigator.clipboard.writeText === "function"
-  ) {
-    try {
-      await navigator.clipboard.writeText(text);
-      return true;
-    } catch {
-      // fall through to legacy fallback
-    }
+  try {
+    return await Clipboard.setStringAsync(text);
+  } catch {
+    return false;
   }
+}
 
-  // Web fallback: execCommand (older browsers / permission issues)
-  if (typeof document !== "undefined") {
-    try {
-      const ta = document.createElement("textarea");
-      ta.value = text;
-      ta.setAttribute("readonly", "true");
-      ta.style.position = "absolute";
-      ta.style.left = "-9999px";
-      document.body.appendChild(ta);
-      ta.select();
-
-      const ok = document.execCommand("copy");
-      document.body.removeChild(ta);
-      return ok;
-    } catch {
-      return false;
+/**
+ * Copies HTML (tables survive a paste into Docs / Word / email) with a
+ * plain-text fallback for editors that only take text.
+ */
+export async function copyRichToClipboard(html: string, text: string): Promise<boolean> {
+  // The native pasteboard derives the plain-text version from the HTML
+  try {
+    if (await Clipboard.setStringAsync(html, { inputFormat: Clipboard.StringFormat.HTML })) {
+      return true;
     }
+  } catch {
+    // fall through to plain text
   }
 
-  // Non-web environments (native) – out of scope for current MVP
-  return false;
+  return copyToClipboard(text);
 }
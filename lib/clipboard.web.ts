@@ -0,0 +1,84 @@
+// lib/clipboard.web.ts
+export async function copyToClipboard(text: string): Promise<boolean> {
+  // Web: modern Clipboard API
+  if (
+    typeof navigator !== "undefined" &&
+    navigator.clipboard &&
+    typeof navigator.clipboard.writeText === "function"
+  ) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch {
+      // fall through to legacy fallback
+    }
+  }
+
+  // Web fallback: execCommand (older browsers / permission issues)
+  if (typeof document !== "undefined") {
+    try {
+      const ta = document.createElement("textarea");
+      ta.value = text;
+      ta.setAttribute("readonly", "true");
+      ta.style.position = "absolute";
+      ta.style.left = "-9999px";
+      document.body.appendChild(ta);
+      ta.select();
+
+      const ok = document.execCommand("copy");
+      document.body.removeChild(ta);
+      return ok;
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Copies HTML (tables survive a paste into Docs / Word / email) with a
+ * plain-text fallback for editors that only take text.
+ */
+export async function copyRichToClipboard(html: string, text: string): Promise<boolean> {
+  // Web: ClipboardItem with both types
+  if (
+    typeof navigator !== "undefined" &&
+    navigator.clipboard &&
+    typeof navigator.clipboard.write === "function" &&
+    typeof ClipboardItem !== "undefined"
+  ) {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          "text/html": new Blob([html], { type: "text/html" }),
+          "text/plain": new Blob([text], { type: "text/plain" }),
+        }),
+      ]);
+      return true;
+    } catch {
+      // fall through to legacy fallback
+    }
+  }
+
+  // Web fallback: execCommand, filling both types from the copy event
+  if (typeof document !== "undefined") {
+    const onCopy = (e: ClipboardEvent) => {
+      if (!e.clipboardData) return;
+      e.clipboardData.setData("text/html", html);
+      e.clipboardData.setData("text/plain", text);
+      e.preventDefault();
+    };
+
+    try {
+      document.addEventListener("copy", onCopy);
+      if (document.execCommand("copy")) return true;
+    } catch {
+      // fall through to plain text
+    } finally {
+      document.removeEventListener("copy", onCopy);
+    }
+  }
+
+  return copyToClipboard(text);
+}
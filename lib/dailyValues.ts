@@ -0,0 +1,99 @@
+// lib/dailyValues.ts
+// Reference-intake tables for the opt-in %DV / %DI column.
+// Percentages are always calculated from the stored values: OCR'd "%" lines
+// are still dropped (see the MVP POLICY note in lib/ocrPost.ts).
+
+import type { NutrientKey } from "./mockLabel";
+
+export type DailyValueTableId = "fda" | "fsanz" | "eu";
+
+export type DailyValueTable = {
+  id: DailyValueTableId;
+  label: string;
+  term: "%DV" | "%DI" | "%RI"; // what the market calls the column
+  values: Partial<Record<NutrientKey, number>>; // in the nutrient's registry unit
+};
+
+export const DAILY_VALUE_TABLES: DailyValueTable[] = [
+  {
+    // 21 CFR 101.9(c), 2016 Daily Values; calories/sugars/trans fat have none
+    id: "fda",
+    label: "FDA (2,000 kcal)",
+    term: "%DV",
+    values: {
+      protein_g: 50,
+      fat_g: 78,
+      saturated_fat_g: 20,
+      cholesterol_mg: 300,
+      carbs_g: 275,
+      added_sugars_g: 50,
+      fibre_g: 28,
+      sodium_mg: 2300,
+      potassium_mg: 4700,
+      calcium_mg: 1300,
+      iron_mg: 18,
+      vitamin_d_mcg: 20,
+    },
+  },
+  {
+    // Standard 1.2.8 Schedule 13, average adult diet of 8,700 kJ
+    id: "fsanz",
+    label: "FSANZ (8,700 kJ)",
+    term: "%DI",
+    values: {
+      energy_kj: 8700,
+      protein_g: 50,
+      fat_g: 70,
+      saturated_fat_g: 24,
+      carbs_g: 310,
+      sugars_g: 90,
+      fibre_g: 30,
+      sodium_mg: 2300,
+    },
+  },
+  {
+    // Reg. 1169/2011 Annex XIII; salt 6 g expressed as sodium
+    id: "eu",
+    label: "EU RI (8,400 kJ)",
+    term: "%RI",
+    values: {
+      energy_kj: 8400,
+      energy_kcal: 2000,
+      protein_g: 50,
+      fat_g: 70,
+      saturated_fat_g: 20,
+      carbs_g: 260,
+      sugars_g: 90,
+      sodium_mg: 2400,
+      potassium_mg: 2000,
+      calcium_mg: 800,
+      iron_mg: 14,
+      vitamin_d_mcg: 5,
+    },
+  },
+];
+
+export function isDailyValueTableId(x: unknown): x is DailyValueTableId {
+  return DAILY_VALUE_TABLES.some((t) => t.id === x);
+}
+
+export function getDailyValueTable(id: DailyValueTableId): DailyValueTable {
+  return DAILY_VALUE_TABLES.find((t) => t.id === id)!;
+}
+
+/** Percent of the reference intake, or null when the table has no value. */
+export function percentDailyValue(
+  key: NutrientKey,
+  value: number,
+  table: DailyValueTableId
+): number | null {
+  const ref = getDailyValueTable(table).values[key];
+  if (!ref || !Number.isFinite(value)) return null;
+  return (value / ref) * 100;
+}
+
+// Whole percent; tiny non-zero amounts read "<1%" rather than "0%"
+export function formatPercent(percent: number) {
+  if (percent > 0 && percent < 1) return "<1%";
+  return `${Math.round(percent)}%`;
+}
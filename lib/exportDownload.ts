@@ -0,0 +1,61 @@
+// lib/exportDownload.ts
+// Native (iOS/Android): there is no downloads folder to save into, so the
+// export is written to the cache directory and handed to the system share
+// sheet (Files, Mail, Drive, ...). The web build uses exportDownload.web.ts.
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+
+type DownloadArgs = {
+  filename: string;
+  content: string;
+  mime: string;
+};
+
+type BinaryDownloadArgs = {
+  filename: string;
+  content: Uint8Array;
+  mime: string;
+};
+
+// iOS picks share targets by UTI rather than MIME type
+const UTIS: Record<string, string> = {
+  "text/plain": "public.plain-text",
+  "text/csv": "public.comma-separated-values-text",
+  "text/html": "public.html",
+  "application/json": "public.json",
+  "application/pdf": "com.adobe.pdf",
+  "image/svg+xml": "public.svg-image",
+};
+
+async function shareFile(filename: string, content: string | Uint8Array, mime: string) {
+  const file = new File(Paths.cache, filename);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+
+  // Nothing to hand the file to; the caller tells the user
+  if (!(await Sharing.isAvailableAsync())) throw new Error("SHARING_UNAVAILABLE");
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: mime,
+    UTI: UTIS[mime] ?? "public.data",
+    dialogTitle: filename,
+  });
+}
+
+export async function downloadTextFile({
+  filename,
+  content,
+  mime,
+}: DownloadArgs) {
+  await shareFile(filename, content, mime);
+}
+
+// For formats that aren't text (e.g. .xlsx)
+export async function downloadBinaryFile({
+  filename,
+  content,
+  mime,
+}: BinaryDownloadArgs) {
+  await shareFile(filename, content, mime);
+}
@@ -6,13 +6,13 @@ type DownloadArgs = {
   mime: string;
 };
 
-export function downloadTextFile({
-  filename,
-  content,
-  mime,
-}: DownloadArgs) {
-  const blob = new Blob([content], { type: mime });
+type BinaryDownloadArgs = {
+  filename: string;
+  content: Uint8Array;
+  mime: string;
+};
 
+function saveBlob(blob: Blob, filename: string) {
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
 
@@ -24,3 +24,20 @@ export function downloadTextFile({
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
 }
+
+export function downloadTextFile({
+  filename,
+  content,
+  mime,
+}: DownloadArgs) {
+  saveBlob(new Blob([content], { type: mime }), filename);
+}
+
+// For formats that aren't text (e.g. .xlsx)
+export function downloadBinaryFile({
+  filename,
+  content,
+  mime,
+}: BinaryDownloadArgs) {
+  saveBlob(new Blob([content], { type: mime }), filename);
+}
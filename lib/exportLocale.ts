@@ -0,0 +1,582 @@
+// lib/exportLocale.ts
+// Export locales for the human-readable exports (plain text, list, CSV,
+// HTML table, PDF, templates): decimal mark, digit grouping, unit spelling,
+// nutrient names and the fixed wording around them. CSV field names stay
+// English so columns line up across exports. Machine formats (JSON,
+// JSON-LD, OFF, FHIR, XLSX, tracker CSVs) stay locale-neutral so importers
+// can read them anywhere.
+// Numbers are formatted by hand rather than Intl, which Hermes only
+// partly supports.
+
+import type { Confidence, NutrientKey } from "./mockLabel";
+import { getNutrientDef } from "./nutrients";
+
+export type ExportLocaleId = "en" | "en-US" | "de" | "fr" | "es" | "it" | "nl";
+
+export type ExportLocale = {
+  id: ExportLocaleId;
+  label: string;
+  decimal: "." | ",";
+  group: string; // "" = no grouping
+  groupMin: number; // digits before grouping kicks in (es: 5, so "1250" stays)
+  units: Record<string, string>; // registry unit -> spelling
+  energy: string;
+  names: Partial<Record<NutrientKey, string>>; // missing keys keep the registry label
+  text: ExportText;
+};
+
+// Line labels, notes and basis names; "Food: …", "Serving size: …"
+export type ExportText = {
+  food: string;
+  servingSize: string;
+  servingsPerPack: string;
+  netQuantity: string;
+  rounding: string;
+  dailyValues: string;
+  from: string; // "%DV from US FDA"
+  consumptionMode: string; // whole line
+  servesEaten: string;
+  gramsEaten: string;
+  millilitresEaten: string;
+  calculationNote: string; // whole line
+  nutrient: string;
+  amount: string;
+  calculated: string;
+  asPrinted: string;
+  partlyCalculated: string;
+  viaDensity: string;
+  needsDensity: string;
+  perServe: string;
+  per100g: string;
+  per100ml: string;
+  per: string; // "per slice"
+  perUnit: string;
+  perPack: string;
+  serves: string; // "8 serves (480g)"
+  // PDF handout
+  handout: string;
+  nutritionInformation: string;
+  whatYouAte: string;
+  derivedFromServing: string;
+  confidence: string;
+  confidenceTitle: string;
+  confidenceIntro: [string, string];
+  confidenceLevels: Record<Confidence, [name: string, text: string]>;
+  calculatedFootnote: string;
+};
+
+const EN_TEXT: ExportText = {
+  food: "Food",
+  servingSize: "Serving size",
+  servingsPerPack: "Servings per pack",
+  netQuantity: "Net quantity",
+  rounding: "Rounding",
+  dailyValues: "Daily values",
+  from: "from",
+  consumptionMode: "Mode: Consumption (derived)",
+  servesEaten: "Serves eaten",
+  gramsEaten: "Grams eaten",
+  millilitresEaten: "Millilitres eaten",
+  calculationNote: "Calculation note: Derived from label serving size and macros.",
+  nutrient: "Nutrient",
+  amount: "Amount",
+  calculated: "calculated",
+  asPrinted: "as printed",
+  partlyCalculated: "partly calculated",
+  viaDensity: "via density",
+  needsDensity: "needs a density",
+  perServe: "per serve",
+  per100g: "per 100 g",
+  per100ml: "per 100 mL",
+  per: "per",
+  perUnit: "per unit",
+  perPack: "per pack",
+  serves: "serves",
+  handout: "NutriCopy handout",
+  nutritionInformation: "Nutrition information",
+  whatYouAte: "What you ate",
+  derivedFromServing: "derived from the label serving size",
+  confidence: "Confidence",
+  confidenceTitle: "How confidence works",
+  confidenceIntro: [
+    "Confidence shows how clearly a value appeared on the label image.",
+    "It does not measure nutritional accuracy.",
+  ],
+  confidenceLevels: {
+    High: ["High", "clearly printed, unambiguous."],
+    Med: ["Medium", "inferred from layout or nearby context."],
+    Low: ["Low", "unclear, partially visible, or ambiguous."],
+  },
+  calculatedFootnote: "Calculated by NutriCopy, not printed on the label.",
+};
+
+export const EXPORT_LOCALES: ExportLocale[] = [
+  {
+    // What every export looked like before locales; the default
+    id: "en",
+    label: "English",
+    decimal: ".",
+    group: "",
+    groupMin: 4,
+    units: {},
+    energy: "Energy",
+    names: {},
+    text: EN_TEXT,
+  },
+  {
+    id: "en-US",
+    label: "English (US)",
+    decimal: ".",
+    group: ",",
+    groupMin: 4,
+    units: { kcal: "Cal" },
+    energy: "Energy",
+    names: { fibre_g: "Fiber", polyols_g: "Sugar alcohols" },
+    text: EN_TEXT,
+  },
+  {
+    id: "de",
+    label: "Deutsch",
+    decimal: ",",
+    group: ".",
+    groupMin: 4,
+    units: { mcg: "µg" },
+    energy: "Energie",
+    names: {
+      protein_g: "Eiweiß",
+      fat_g: "Fett",
+      saturated_fat_g: "davon gesättigte Fettsäuren",
+      trans_fat_g: "Transfettsäuren",
+      cholesterol_mg: "Cholesterin",
+      carbs_g: "Kohlenhydrate",
+      sugars_g: "davon Zucker",
+      added_sugars_g: "zugesetzter Zucker",
+      polyols_g: "mehrwertige Alkohole",
+      fibre_g: "Ballaststoffe",
+      sodium_mg: "Natrium",
+      potassium_mg: "Kalium",
+      calcium_mg: "Calcium",
+      iron_mg: "Eisen",
+      vitamin_d_mcg: "Vitamin D",
+    },
+    text: {
+      food: "Lebensmittel",
+      servingSize: "Portionsgröße",
+      servingsPerPack: "Portionen pro Packung",
+      netQuantity: "Nettofüllmenge",
+      rounding: "Rundung",
+      dailyValues: "Referenzwerte",
+      from: "nach",
+      consumptionMode: "Modus: Verzehr (abgeleitet)",
+      servesEaten: "Verzehrte Portionen",
+      gramsEaten: "Verzehrte Gramm",
+      millilitresEaten: "Verzehrte Milliliter",
+      calculationNote: "Berechnungshinweis: Abgeleitet aus Portionsgröße und Nährwerten des Etiketts.",
+      nutrient: "Nährstoff",
+      amount: "Menge",
+      calculated: "berechnet",
+      asPrinted: "wie aufgedruckt",
+      partlyCalculated: "teilweise berechnet",
+      viaDensity: "über Dichte",
+      needsDensity: "Dichte erforderlich",
+      perServe: "pro Portion",
+      per100g: "pro 100 g",
+      per100ml: "pro 100 mL",
+      per: "pro",
+      perUnit: "pro Stück",
+      perPack: "pro Packung",
+      serves: "Portionen",
+      handout: "NutriCopy-Merkblatt",
+      nutritionInformation: "Nährwertangaben",
+      whatYouAte: "Was Sie gegessen haben",
+      derivedFromServing: "abgeleitet aus der Portionsgröße des Etiketts",
+      confidence: "Sicherheit",
+      confidenceTitle: "Was die Sicherheit bedeutet",
+      confidenceIntro: [
+        "Die Sicherheit zeigt, wie deutlich ein Wert auf dem Etikettenfoto zu erkennen war.",
+        "Sie misst nicht die ernährungsphysiologische Richtigkeit.",
+      ],
+      confidenceLevels: {
+        High: ["Hoch", "deutlich gedruckt, eindeutig."],
+        Med: ["Mittel", "aus Layout oder Umgebung abgeleitet."],
+        Low: ["Niedrig", "unklar, teilweise sichtbar oder mehrdeutig."],
+      },
+      calculatedFootnote: "Von NutriCopy berechnet, nicht auf dem Etikett angegeben.",
+    },
+  },
+  {
+    id: "fr",
+    label: "Français",
+    decimal: ",",
+    group: " ", // narrow no-break space
+    groupMin: 4,
+    units: { mcg: "µg" },
+    energy: "Énergie",
+    names: {
+      protein_g: "Protéines",
+      fat_g: "Matières grasses",
+      saturated_fat_g: "dont acides gras saturés",
+      trans_fat_g: "Acides gras trans",
+      cholesterol_mg: "Cholestérol",
+      carbs_g: "Glucides",
+      sugars_g: "dont sucres",
+      added_sugars_g: "Sucres ajoutés",
+      polyols_g: "Polyols",
+      fibre_g: "Fibres alimentaires",
+      sodium_mg: "Sodium",
+      potassium_mg: "Potassium",
+      calcium_mg: "Calcium",
+      iron_mg: "Fer",
+      vitamin_d_mcg: "Vitamine D",
+    },
+    text: {
+      food: "Aliment",
+      servingSize: "Portion",
+      servingsPerPack: "Portions par paquet",
+      netQuantity: "Quantité nette",
+      rounding: "Arrondi",
+      dailyValues: "Valeurs de référence",
+      from: "selon",
+      consumptionMode: "Mode: Consommation (dérivé)",
+      servesEaten: "Portions consommées",
+      gramsEaten: "Grammes consommés",
+      millilitresEaten: "Millilitres consommés",
+      calculationNote: "Note de calcul: Dérivé de la portion et des valeurs nutritionnelles de l'étiquette.",
+      nutrient: "Nutriment",
+      amount: "Quantité",
+      calculated: "calculé",
+      asPrinted: "tel qu'imprimé",
+      partlyCalculated: "partiellement calculé",
+      viaDensity: "via la densité",
+      needsDensity: "densité nécessaire",
+      perServe: "par portion",
+      per100g: "pour 100 g",
+      per100ml: "pour 100 mL",
+      per: "par",
+      perUnit: "par unité",
+      perPack: "par paquet",
+      serves: "portions",
+      handout: "Fiche NutriCopy",
+      nutritionInformation: "Informations nutritionnelles",
+      whatYouAte: "Ce que vous avez mangé",
+      derivedFromServing: "dérivé de la portion indiquée sur l'étiquette",
+      confidence: "Fiabilité",
+      confidenceTitle: "Comment lire la fiabilité",
+      confidenceIntro: [
+        "La fiabilité indique la netteté d'une valeur sur la photo de l'étiquette.",
+        "Elle ne mesure pas l'exactitude nutritionnelle.",
+      ],
+      confidenceLevels: {
+        High: ["Élevée", "imprimé clairement, sans ambiguïté."],
+        Med: ["Moyenne", "déduit de la mise en page ou du contexte."],
+        Low: ["Faible", "flou, partiellement visible ou ambigu."],
+      },
+      calculatedFootnote: "Calculé par NutriCopy, non imprimé sur l'étiquette.",
+    },
+  },
+  {
+    id: "es",
+    label: "Español",
+    decimal: ",",
+    group: ".",
+    groupMin: 5,
+    units: { mcg: "µg" },
+    energy: "Valor energético",
+    names: {
+      protein_g: "Proteínas",
+      fat_g: "Grasas",
+      saturated_fat_g: "de las cuales saturadas",
+      trans_fat_g: "Grasas trans",
+      cholesterol_mg: "Colesterol",
+      carbs_g: "Hidratos de carbono",
+      sugars_g: "de los cuales azúcares",
+      added_sugars_g: "Azúcares añadidos",
+      polyols_g: "Polialcoholes",
+      fibre_g: "Fibra alimentaria",
+      sodium_mg: "Sodio",
+      potassium_mg: "Potasio",
+      calcium_mg: "Calcio",
+      iron_mg: "Hierro",
+      vitamin_d_mcg: "Vitamina D",
+    },
+    text: {
+      food: "Alimento",
+      servingSize: "Tamaño de la porción",
+      servingsPerPack: "Porciones por envase",
+      netQuantity: "Cantidad neta",
+      rounding: "Redondeo",
+      dailyValues: "Valores de referencia",
+      from: "según",
+      consumptionMode: "Modo: Consumo (derivado)",
+      servesEaten: "Porciones consumidas",
+      gramsEaten: "Gramos consumidos",
+      millilitresEaten: "Mililitros consumidos",
+      calculationNote: "Nota de cálculo: Derivado del tamaño de la porción y los nutrientes de la etiqueta.",
+      nutrient: "Nutriente",
+      amount: "Cantidad",
+      calculated: "calculado",
+      asPrinted: "según la etiqueta",
+      partlyCalculated: "parcialmente calculado",
+      viaDensity: "mediante densidad",
+      needsDensity: "requiere densidad",
+      perServe: "por porción",
+      per100g: "por 100 g",
+      per100ml: "por 100 mL",
+      per: "por",
+      perUnit: "por unidad",
+      perPack: "por envase",
+      serves: "porciones",
+      handout: "Ficha NutriCopy",
+      nutritionInformation: "Información nutricional",
+      whatYouAte: "Lo que comiste",
+      derivedFromServing: "derivado del tamaño de la porción de la etiqueta",
+      confidence: "Confianza",
+      confidenceTitle: "Cómo funciona la confianza",
+      confidenceIntro: [
+        "La confianza indica con qué claridad aparecía un valor en la foto de la etiqueta.",
+        "No mide la exactitud nutricional.",
+      ],
+      confidenceLevels: {
+        High: ["Alta", "impreso con claridad, sin ambigüedad."],
+        Med: ["Media", "deducido del diseño o del contexto cercano."],
+        Low: ["Baja", "poco claro, parcialmente visible o ambiguo."],
+      },
+      calculatedFootnote: "Calculado por NutriCopy, no impreso en la etiqueta.",
+    },
+  },
+  {
+    id: "it",
+    label: "Italiano",
+    decimal: ",",
+    group: ".",
+    groupMin: 4,
+    units: { mcg: "µg" },
+    energy: "Energia",
+    names: {
+      protein_g: "Proteine",
+      fat_g: "Grassi",
+      saturated_fat_g: "di cui acidi grassi saturi",
+      trans_fat_g: "Acidi grassi trans",
+      cholesterol_mg: "Colesterolo",
+      carbs_g: "Carboidrati",
+      sugars_g: "di cui zuccheri",
+      added_sugars_g: "Zuccheri aggiunti",
+      polyols_g: "Polioli",
+      fibre_g: "Fibre",
+      sodium_mg: "Sodio",
+      potassium_mg: "Potassio",
+      calcium_mg: "Calcio",
+      iron_mg: "Ferro",
+      vitamin_d_mcg: "Vitamina D",
+    },
+    text: {
+      food: "Alimento",
+      servingSize: "Porzione",
+      servingsPerPack: "Porzioni per confezione",
+      netQuantity: "Quantità netta",
+      rounding: "Arrotondamento",
+      dailyValues: "Assunzioni di riferimento",
+      from: "secondo",
+      consumptionMode: "Modalità: Consumo (derivato)",
+      servesEaten: "Porzioni consumate",
+      gramsEaten: "Grammi consumati",
+      millilitresEaten: "Millilitri consumati",
+      calculationNote: "Nota di calcolo: Derivato dalla porzione e dai nutrienti dell'etichetta.",
+      nutrient: "Nutriente",
+      amount: "Quantità",
+      calculated: "calcolato",
+      asPrinted: "come stampato",
+      partlyCalculated: "parzialmente calcolato",
+      viaDensity: "tramite densità",
+      needsDensity: "serve la densità",
+      perServe: "per porzione",
+      per100g: "per 100 g",
+      per100ml: "per 100 mL",
+      per: "per",
+      perUnit: "per unità",
+      perPack: "per confezione",
+      serves: "porzioni",
+      handout: "Scheda NutriCopy",
+      nutritionInformation: "Informazioni nutrizionali",
+      whatYouAte: "Cosa hai mangiato",
+      derivedFromServing: "derivato dalla porzione indicata in etichetta",
+      confidence: "Affidabilità",
+      confidenceTitle: "Come funziona l'affidabilità",
+      confidenceIntro: [
+        "L'affidabilità indica quanto chiaramente un valore appariva nella foto dell'etichetta.",
+        "Non misura l'accuratezza nutrizionale.",
+      ],
+      confidenceLevels: {
+        High: ["Alta", "stampato chiaramente, senza ambiguità."],
+        Med: ["Media", "dedotto dal layout o dal contesto vicino."],
+        Low: ["Bassa", "poco chiaro, parzialmente visibile o ambiguo."],
+      },
+      calculatedFootnote: "Calcolato da NutriCopy, non stampato sull'etichetta.",
+    },
+  },
+  {
+    id: "nl",
+    label: "Nederlands",
+    decimal: ",",
+    group: ".",
+    groupMin: 4,
+    units: { mcg: "µg" },
+    energy: "Energie",
+    names: {
+      protein_g: "Eiwitten",
+      fat_g: "Vetten",
+      saturated_fat_g: "waarvan verzadigde vetzuren",
+      trans_fat_g: "Transvetzuren",
+      cholesterol_mg: "Cholesterol",
+      carbs_g: "Koolhydraten",
+      sugars_g: "waarvan suikers",
+      added_sugars_g: "Toegevoegde suikers",
+      polyols_g: "Polyolen",
+      fibre_g: "Voedingsvezel",
+      sodium_mg: "Natrium",
+      potassium_mg: "Kalium",
+      calcium_mg: "Calcium",
+      iron_mg: "IJzer",
+      vitamin_d_mcg: "Vitamine D",
+    },
+    text: {
+      food: "Voedingsmiddel",
+      servingSize: "Portiegrootte",
+      servingsPerPack: "Porties per verpakking",
+      netQuantity: "Netto-inhoud",
+      rounding: "Afronding",
+      dailyValues: "Referentie-innames",
+      from: "volgens",
+      consumptionMode: "Modus: Consumptie (afgeleid)",
+      servesEaten: "Gegeten porties",
+      gramsEaten: "Gegeten gram",
+      millilitresEaten: "Gegeten milliliter",
+      calculationNote: "Berekeningsnotitie: Afgeleid van de portiegrootte en voedingswaarden op het etiket.",
+      nutrient: "Voedingsstof",
+      amount: "Hoeveelheid",
+      calculated: "berekend",
+      asPrinted: "zoals gedrukt",
+      partlyCalculated: "deels berekend",
+      viaDensity: "via dichtheid",
+      needsDensity: "dichtheid nodig",
+      perServe: "per portie",
+      per100g: "per 100 g",
+      per100ml: "per 100 mL",
+      per: "per",
+      perUnit: "per stuk",
+      perPack: "per verpakking",
+      serves: "porties",
+      handout: "NutriCopy-overzicht",
+      nutritionInformation: "Voedingswaarde-informatie",
+      whatYouAte: "Wat je hebt gegeten",
+      derivedFromServing: "afgeleid van de portiegrootte op het etiket",
+      confidence: "Betrouwbaarheid",
+      confidenceTitle: "Hoe betrouwbaarheid werkt",
+      confidenceIntro: [
+        "Betrouwbaarheid geeft aan hoe duidelijk een waarde op de foto van het etiket stond.",
+        "Het zegt niets over de voedingskundige juistheid.",
+      ],
+      confidenceLevels: {
+        High: ["Hoog", "duidelijk gedrukt, eenduidig."],
+        Med: ["Gemiddeld", "afgeleid uit de opmaak of nabije context."],
+        Low: ["Laag", "onduidelijk, gedeeltelijk zichtbaar of dubbelzinnig."],
+      },
+      calculatedFootnote: "Berekend door NutriCopy, niet op het etiket gedrukt.",
+    },
+  },
+];
+
+export function isExportLocaleId(x: unknown): x is ExportLocaleId {
+  return EXPORT_LOCALES.some((l) => l.id === x);
+}
+
+export function getExportLocale(id: ExportLocaleId): ExportLocale {
+  return EXPORT_LOCALES.find((l) => l.id === id)!;
+}
+
+export function exportText(locale: ExportLocaleId = "en"): ExportText {
+  return getExportLocale(locale).text;
+}
+
+/** Row name for a nutrient key, or "energy" for the combined energy row. */
+export function nutrientName(key: string, locale: ExportLocaleId = "en") {
+  const l = getExportLocale(locale);
+  if (key === "energy") return l.energy;
+  return l.names[key as NutrientKey] ?? getNutrientDef(key as NutrientKey).label;
+}
+
+// "1250.5" -> "1.250,5" (de)
+function localizeNumber(n: string, l: ExportLocale) {
+  const [int, frac] = n.split(".");
+  const grouped =
+    l.group && int.length >= l.groupMin ? int.replace(/\B(?=(\d{3})+$)/g, l.group) : int;
+  return frac != null ? `${grouped}${l.decimal}${frac}` : grouped;
+}
+
+const UNIT_RE = /(\d\s?)(kJ|kcal|mcg|mg|g)\b/g;
+
+/**
+ * Localises the numbers and units in display text we generated ("33.3 g",
+ * "750 kJ (180 kcal)", "Serving size: 37.5g → 100g"). Not for free text.
+ */
+export function localizeText(text: string, locale: ExportLocaleId = "en") {
+  const l = getExportLocale(locale);
+  if (l.id === "en") return text;
+
+  return text
+    .replace(UNIT_RE, (_, lead: string, unit: string) => `${lead}${l.units[unit] ?? unit}`)
+    .replace(/\d+(?:\.\d+)?/g, (n) => localizeNumber(n, l));
+}
+
+// "37.5", "<1", "750 kJ (180 kcal)"; names and free text are left alone
+const CSV_VALUE_RE = /^<?-?\d[\d.]*( \w+)?( \(<?\d[\d.]* \w+\))?$/;
+const CSV_UNIT_RE = /^(kJ|kcal|mcg|mg|g)$/;
+
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      cells.push(cell);
+      cell = "";
+    } else cell += c;
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Re-writes a CSV export built with "." decimals for the locale: values and
+ * units are localised, and fields are separated with ";" where "," is the
+ * decimal mark, as local spreadsheets expect.
+ */
+export function localizeCsv(csv: string, locale: ExportLocaleId = "en") {
+  const l = getExportLocale(locale);
+  if (l.id === "en") return csv;
+
+  const sep = l.decimal === "," ? ";" : ",";
+  const quote = (s: string) =>
+    s.includes(sep) || s.includes('"') ? `"${s.replace(/"/g, '""')}"` : s;
+
+  return csv
+    .split("\n")
+    .map((line) =>
+      splitCsvLine(line)
+        .map((cell) => {
+          if (CSV_VALUE_RE.test(cell)) return quote(localizeText(cell, locale));
+          if (CSV_UNIT_RE.test(cell)) return quote(l.units[cell] ?? cell);
+          return quote(cell);
+        })
+        .join(sep)
+    )
+    .join("\n");
+}
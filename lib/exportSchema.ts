@@ -0,0 +1,108 @@
+// lib/exportSchema.ts
+// JSON Schema (draft 2020-12) for the document buildJSON() produces.
+// Bump EXPORT_JSON_VERSION and the $id together when the shape changes.
+
+import { NUTRIENTS } from "./nutrients";
+import { DAILY_VALUE_TABLES } from "./dailyValues";
+import { ROUNDING_PROFILES } from "./rounding";
+
+export const EXPORT_JSON_VERSION = 1;
+export const EXPORT_SCHEMA_ID = `urn:nutricopy:export:v${EXPORT_JSON_VERSION}`;
+
+const amountUnit = { enum: ["g", "ml"] };
+
+export const EXPORT_JSON_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: EXPORT_SCHEMA_ID,
+  title: "NutriCopy export",
+  type: "object",
+  additionalProperties: false,
+  required: [
+    "$schema",
+    "version",
+    "mode",
+    "basis",
+    "servingSize",
+    "rounding",
+    "dailyValues",
+    "nutrients",
+  ],
+  properties: {
+    $schema: { const: EXPORT_SCHEMA_ID },
+    version: { const: EXPORT_JSON_VERSION },
+    name: { type: "string", description: "User-provided food name" },
+    mode: { enum: ["label", "consumption"] },
+    basis: {
+      enum: ["per_serve", "per_100g", "per_100ml", "per_unit", "per_pack", "custom"],
+      description: "What every nutrient value is relative to",
+    },
+    servingSize: {
+      type: "object",
+      additionalProperties: false,
+      required: ["value", "unit"],
+      properties: {
+        value: { type: "number", exclusiveMinimum: 0 },
+        unit: amountUnit,
+        household: {
+          type: "object",
+          additionalProperties: false,
+          required: ["value", "unit"],
+          properties: {
+            value: { type: "number", exclusiveMinimum: 0 },
+            unit: { type: "string", description: "e.g. \"slices\", \"cup\"" },
+          },
+        },
+      },
+    },
+    servingsPerPack: { type: "number", exclusiveMinimum: 0 },
+    netQuantity: {
+      type: "object",
+      additionalProperties: false,
+      required: ["value", "unit"],
+      properties: {
+        value: { type: "number", exclusiveMinimum: 0 },
+        unit: amountUnit,
+      },
+    },
+    density: { type: "number", exclusiveMinimum: 0, description: "g per mL" },
+    consumption: {
+      type: "object",
+      additionalProperties: false,
+      description: "Amount eaten, present in consumption mode",
+      properties: {
+        serves: { type: "number", exclusiveMinimum: 0 },
+        amount: { type: "number", exclusiveMinimum: 0 },
+        amountUnit,
+      },
+    },
+    rounding: { enum: ROUNDING_PROFILES.map((p) => p.id) },
+    dailyValues: {
+      enum: [null, ...DAILY_VALUE_TABLES.map((t) => t.id)],
+      description: "Reference-intake table used for percentDailyValue",
+    },
+    nutrients: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["key", "label", "value", "unit", "display", "confidence", "source"],
+        properties: {
+          key: { enum: NUTRIENTS.map((n) => n.key) },
+          label: { type: "string" },
+          value: { type: "number", description: "Unrounded value for the basis" },
+          unit: { enum: ["kJ", "kcal", "g", "mg", "mcg"] },
+          display: {
+            type: "string",
+            description: "Value as rounded by the rounding profile, e.g. \"<1\"",
+          },
+          confidence: { enum: ["High", "Med", "Low"] },
+          source: {
+            enum: ["printed", "calculated"],
+            description: "Read off the label, or derived by NutriCopy",
+          },
+          percentDailyValue: { type: "number", minimum: 0 },
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,260 @@
+// lib/exportTemplate.ts
+// User-written export templates, rendered against getReviewRows output.
+//
+// Syntax (a small Mustache subset):
+//   {{name}} {{serving}} {{basis}} {{mode}} {{rounding}} {{dailyValues}} {{date}}
+//   {{servesEaten}} {{amountEaten}} {{amountEatenLabel}}
+//   {{#rows}} ... {{/rows}}        once per nutrient row; inside:
+//     {{key}} {{label}} {{text}} {{value}} {{unit}} {{confidence}}
+//     {{percent}} {{source}} {{depth}} {{indent}}
+//   {{protein_g.value}}            one row by key ("energy" for the energy row)
+//   {{#consumption}} ... {{/consumption}}, {{^consumption}} ... {{/consumption}}
+//   {{#percent}} ... {{/percent}}  any field: shown when set / non-empty
+// Unknown placeholders render empty. A section tag alone on its line
+// doesn't leave a blank line behind. Names, numbers and units follow the
+// export locale (lib/exportLocale).
+
+import type { LabelData } from "./mockLabel";
+import {
+  amountEatenLabel,
+  basisLabel,
+  getReviewRows,
+  servingSizeText,
+  type Basis,
+} from "./nutritionFormat";
+import { getDailyValueTable, type DailyValueTableId } from "./dailyValues";
+import { exportText, localizeText, type ExportLocaleId } from "./exportLocale";
+import { roundingProfileLabel, type RoundingProfileId } from "./rounding";
+
+export type ExportTemplate = {
+  id: string;
+  name: string;
+  extension: string; // for downloads, without the dot
+  body: string;
+};
+
+export const EXAMPLE_TEMPLATE = `{{#name}}{{name}}
+{{/name}}
+Serving: {{serving}} ({{basis}})
+{{#consumption}}
+Eaten: {{servesEaten}}{{amountEaten}}
+{{/consumption}}
+
+{{#rows}}
+{{indent}}{{label}}: {{text}}{{#percent}} ({{percent}}){{/percent}} [{{confidence}}]
+{{/rows}}
+`;
+
+type Value = string | number | boolean | null | Scope | Scope[];
+type Scope = { [key: string]: Value };
+
+type Node =
+  | { type: "text"; text: string }
+  | { type: "var"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: Node[] };
+
+const TAG_RE = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/;
+
+// Standalone section tags swallow their own line
+const STANDALONE_RE = /^[ \t]*(\{\{\s*[#^/]\s*[\w.]+\s*\}\})[ \t]*\r?\n/gm;
+
+function parse(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: { name: string; children: Node[] }[] = [{ name: "", children: root }];
+  const text = source.replace(STANDALONE_RE, "$1");
+
+  const tags = new RegExp(TAG_RE.source, "g");
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = tags.exec(text))) {
+    const top = stack[stack.length - 1];
+    if (m.index! > last) top.children.push({ type: "text", text: text.slice(last, m.index) });
+    last = m.index! + m[0].length;
+
+    const [, sigil, name] = m;
+    if (sigil === "#" || sigil === "^") {
+      const section: Node = { type: "section", name, inverted: sigil === "^", children: [] };
+      top.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === "/") {
+      if (stack.length === 1 || top.name !== name) {
+        throw new Error(`Unexpected {{/${name}}}`);
+      }
+      stack.pop();
+    } else {
+      top.children.push({ type: "var", name });
+    }
+  }
+
+  if (stack.length > 1) throw new Error(`Unclosed {{#${stack[stack.length - 1].name}}}`);
+  if (last < text.length) root.push({ type: "text", text: text.slice(last) });
+  return root;
+}
+
+/** Syntax problem in a template, or null when it renders. */
+export function templateError(source: string): string | null {
+  try {
+    parse(source);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : "Invalid template";
+  }
+}
+
+/* -----------------------------
+   Data
+------------------------------ */
+
+// "12 g" -> 12 / g, "<1 g" -> <1 / g, "750 kJ (180 kcal)" -> 750 / kJ,
+// "1 250,5 kJ" (fr) -> 1 250,5 / kJ
+function splitValue(text: string) {
+  const m = text.match(/^(<?\s*\d[\d.,\u202f]*)\s*([^\s(]*)/);
+  return m ? { value: m[1].replace(/^<\s+/, "<"), unit: m[2] } : { value: text, unit: "" };
+}
+
+function buildScope(
+  label: LabelData,
+  basis: Basis,
+  customGrams: number | undefined,
+  customServes: number | undefined,
+  mode: "label" | "consumption",
+  rounding: RoundingProfileId,
+  dailyValues: DailyValueTableId | null,
+  locale: ExportLocaleId,
+  date: Date
+): Scope {
+  const rows: Scope[] = getReviewRows(
+    label,
+    basis,
+    customGrams,
+    customServes,
+    rounding,
+    dailyValues,
+    locale
+  ).map((r) => ({
+    key: r.id,
+    label: r.label,
+    text: r.valueText,
+    ...splitValue(r.valueText),
+    confidence: r.confidence ?? "",
+    percent: r.percentText ?? "",
+    source: r.source,
+    depth: r.depth,
+    indent: "  ".repeat(r.depth),
+  }));
+
+  const isConsumption = mode === "consumption";
+  const scope: Scope = {
+    name: label.name ?? "",
+    serving: localizeText(servingSizeText(label, basis, locale), locale),
+    basis: basisLabel(basis, label, locale),
+    mode,
+    rounding: roundingProfileLabel(rounding),
+    dailyValues: dailyValues ? getDailyValueTable(dailyValues).term : "",
+    date: date.toISOString().slice(0, 10),
+    consumption: isConsumption,
+    servesEaten:
+      isConsumption && Number.isFinite(customServes)
+        ? `${localizeText(String(customServes), locale)} ${exportText(locale).serves}`
+        : "",
+    amountEaten:
+      isConsumption && Number.isFinite(customGrams)
+        ? localizeText(`${customGrams}${label.servingSize.unit}`, locale)
+        : "",
+    amountEatenLabel: amountEatenLabel(label, locale),
+    rows,
+  };
+
+  // {{protein_g.value}}; sits under the top-level fields so it can't shadow them
+  for (const row of rows) {
+    const key = row.key as string;
+    if (!(key in scope)) scope[key] = row;
+  }
+
+  return scope;
+}
+
+/* -----------------------------
+   Render
+------------------------------ */
+
+function lookup(stack: Scope[], name: string): Value {
+  const [head, ...rest] = name.split(".");
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (!(head in stack[i])) continue;
+
+    let v: Value = stack[i][head];
+    for (const part of rest) {
+      v = v && typeof v === "object" && !Array.isArray(v) ? (v[part] ?? null) : null;
+    }
+    return v;
+  }
+  return null;
+}
+
+function isTruthy(v: Value) {
+  if (Array.isArray(v)) return v.length > 0;
+  return v !== null && v !== false && v !== "" && v !== 0;
+}
+
+function renderNodes(nodes: Node[], stack: Scope[]): string {
+  let out = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.text;
+      continue;
+    }
+
+    const v = lookup(stack, node.name);
+
+    if (node.type === "var") {
+      out += v == null || typeof v === "object" ? "" : String(v);
+      continue;
+    }
+
+    if (node.inverted) {
+      if (!isTruthy(v)) out += renderNodes(node.children, stack);
+      continue;
+    }
+
+    if (!isTruthy(v)) continue;
+    if (Array.isArray(v)) {
+      for (const item of v) out += renderNodes(node.children, [...stack, item]);
+    } else if (typeof v === "object") {
+      out += renderNodes(node.children, [...stack, v as Scope]);
+    } else {
+      out += renderNodes(node.children, stack);
+    }
+  }
+
+  return out;
+}
+
+/** Renders a template; throws on syntax errors (see templateError). */
+export function renderTemplate(
+  source: string,
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en",
+  date: Date = new Date()
+) {
+  const scope = buildScope(
+    label,
+    basis,
+    customGrams,
+    customServes,
+    mode,
+    rounding,
+    dailyValues,
+    locale,
+    date
+  );
+  return renderNodes(parse(source), [scope]);
+}
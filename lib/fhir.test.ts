@@ -0,0 +1,31 @@
+// lib/fhir.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { buildFhirNutritionIntake, buildFhirNutritionProduct } from "./fhir";
+import { mockLabel } from "./mockLabel";
+
+test("nutrients carry the SNOMED CT concept next to the registry code", () => {
+  const product = buildFhirNutritionProduct(mockLabel);
+  const protein = product.nutrient!.find((n) => n.item.concept.text === "Protein")!;
+  assert.deepEqual(
+    protein.item.concept.coding!.map((c) => `${c.system}|${c.code}`),
+    ["urn:nutricopy:nutrient|protein_g", "http://snomed.info/sct|88878007"]
+  );
+});
+
+test("the intake needs a subject rather than a placeholder", () => {
+  assert.throws(() => buildFhirNutritionIntake(mockLabel, undefined, 2), /NO_SUBJECT/);
+});
+
+test("the intake uses the caller's subject", () => {
+  const subject = { reference: "Patient/123" };
+  const intake = buildFhirNutritionIntake(mockLabel, undefined, 2, new Date(), subject);
+  assert.deepEqual(intake.subject, subject);
+});
+
+test("the intake amount prefers serves over grams, as on screen", () => {
+  const subject = { reference: "Patient/123" };
+  const intake = buildFhirNutritionIntake(mockLabel, 30, 2, new Date(), subject);
+  assert.equal(intake.consumedItem[0].amount.code, "{serving}");
+  assert.equal(intake.consumedItem[0].amount.value, 2);
+});
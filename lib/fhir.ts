@@ -0,0 +1,240 @@
+// lib/fhir.ts
+// HL7 FHIR R5 resources: NutritionProduct for a scanned label (per-serve and
+// per-100 amounts as Ratios) and NutritionIntake for what was eaten (the
+// same consumption maths as buildConsumption*). Both are checked against the
+// bundled shapes in lib/fhirShapes before they are returned.
+// Nutrients carry our registry key plus, where there is one, the SNOMED CT
+// substance concept, so partners don't have to map the common ones.
+
+import type { LabelData, NutrientKey } from "./mockLabel";
+import {
+  buildJSONDocument,
+  consumptionAmount,
+  formatHousehold,
+  per100Basis,
+  servingsInPack,
+} from "./nutritionFormat";
+import { NUTRITION_INTAKE_SHAPE, NUTRITION_PRODUCT_SHAPE, validateFhir } from "./fhirShapes";
+
+export const FHIR_NUTRIENT_SYSTEM = "urn:nutricopy:nutrient";
+
+const UCUM = "http://unitsofmeasure.org";
+const SNOMED = "http://snomed.info/sct";
+
+// SNOMED CT substance concepts (code, display). Keys not listed, energy
+// among them, keep only the registry code.
+const SNOMED_NUTRIENTS: Partial<Record<NutrientKey, [string, string]>> = {
+  protein_g: ["88878007", "Protein"],
+  fat_g: ["256674009", "Fat"],
+  cholesterol_mg: ["84695006", "Cholesterol"],
+  carbs_g: ["2331003", "Carbohydrate"],
+  sugars_g: ["74801000", "Sugar"],
+  sodium_mg: ["39972003", "Sodium"],
+  potassium_mg: ["88480006", "Potassium"],
+  calcium_mg: ["5540006", "Calcium"],
+  iron_mg: ["3829006", "Iron"],
+};
+
+// Registry / amount units -> UCUM (display, code)
+const UCUM_UNITS: Record<string, [string, string]> = {
+  kJ: ["kJ", "kJ"],
+  kcal: ["kcal", "kcal"],
+  g: ["g", "g"],
+  mg: ["mg", "mg"],
+  mcg: ["µg", "ug"],
+  ml: ["mL", "mL"],
+};
+
+type Quantity = { value: number; unit: string; system: string; code: string };
+type Coding = { system: string; code: string; display?: string };
+type CodeableConcept = { coding?: Coding[]; text?: string };
+type Reference = { reference?: string; display?: string };
+
+export type FhirNutritionProduct = {
+  resourceType: "NutritionProduct";
+  status: "active";
+  code?: CodeableConcept;
+  nutrient?: {
+    item: { concept: CodeableConcept };
+    amount: { numerator: Quantity; denominator: Quantity }[];
+  }[];
+  characteristic?: { type: CodeableConcept; valueQuantity?: Quantity; valueString?: string }[];
+  instance?: { quantity: Quantity }[];
+};
+
+export type FhirNutritionIntake = {
+  resourceType: "NutritionIntake";
+  status: "completed";
+  subject: Reference;
+  occurrenceDateTime: string;
+  consumedItem: {
+    type: CodeableConcept;
+    nutritionProduct: { concept: CodeableConcept };
+    amount: Quantity;
+  }[];
+  ingredientLabel?: { nutrient: { concept: CodeableConcept }; amount: Quantity }[];
+};
+
+function quantity(value: number, unit: string): Quantity {
+  const [display, code] = UCUM_UNITS[unit] ?? [unit, unit];
+  return { value, unit: display, system: UCUM, code };
+}
+
+function nutrientConcept(key: string, label: string): CodeableConcept {
+  const coding: Coding[] = [{ system: FHIR_NUTRIENT_SYSTEM, code: key, display: label }];
+  const snomed = SNOMED_NUTRIENTS[key as NutrientKey];
+  if (snomed) coding.push({ system: SNOMED, code: snomed[0], display: snomed[1] });
+  return { coding, text: label };
+}
+
+function productConcept(label: LabelData): CodeableConcept {
+  return { text: label.name?.trim() || "Scanned food product" };
+}
+
+// Fails loudly: a resource partners can't ingest is worse than no export
+function assertValid<T>(resource: T, shape: Parameters<typeof validateFhir>[1]): T {
+  const errors = validateFhir(resource, shape);
+  if (errors.length) throw new Error(`FHIR_INVALID: ${errors.join("; ")}`);
+  return resource;
+}
+
+/* -----------------------------
+   NutritionProduct
+------------------------------ */
+
+export function buildFhirNutritionProduct(label: LabelData): FhirNutritionProduct {
+  const { servingSize } = label;
+  const hasServing = servingSize.value >= 5;
+  const per100 = per100Basis(label);
+
+  const perServe = buildJSONDocument(label, "per_serve").nutrients;
+  const per100Values = new Map(
+    buildJSONDocument(label, per100).nutrients.map((n) => [n.key, n] as const)
+  );
+
+  const nutrient: NonNullable<FhirNutritionProduct["nutrient"]> = [];
+  for (const n of perServe) {
+    const amount: { numerator: Quantity; denominator: Quantity }[] = [];
+
+    // Without a real serving size (OCR sentinel) only printed per-100 figures hold
+    if (hasServing) {
+      amount.push({
+        numerator: quantity(n.value, n.unit),
+        denominator: quantity(servingSize.value, servingSize.unit),
+      });
+    }
+    const p = per100Values.get(n.key);
+    if (p && (hasServing || p.source === "printed")) {
+      amount.push({
+        numerator: quantity(p.value, p.unit),
+        denominator: quantity(100, servingSize.unit),
+      });
+    }
+
+    if (amount.length) nutrient.push({ item: { concept: nutrientConcept(n.key, n.label) }, amount });
+  }
+
+  const characteristic: NonNullable<FhirNutritionProduct["characteristic"]> = [];
+  if (hasServing) {
+    characteristic.push({
+      type: { text: "Serving size" },
+      valueQuantity: quantity(servingSize.value, servingSize.unit),
+    });
+  }
+  if (servingSize.household) {
+    characteristic.push({
+      type: { text: "Household serving size" },
+      valueString: formatHousehold(servingSize.household),
+    });
+  }
+  const serves = servingsInPack(label);
+  if (serves != null) {
+    characteristic.push({ type: { text: "Servings per package" }, valueString: String(serves) });
+  }
+
+  const resource: FhirNutritionProduct = {
+    resourceType: "NutritionProduct",
+    status: "active",
+    code: productConcept(label),
+    ...(nutrient.length ? { nutrient } : {}),
+    ...(characteristic.length ? { characteristic } : {}),
+    ...(label.netQuantity
+      ? { instance: [{ quantity: quantity(label.netQuantity.value, label.netQuantity.unit) }] }
+      : {}),
+  };
+
+  return assertValid(resource, NUTRITION_PRODUCT_SHAPE);
+}
+
+export function buildFhirNutritionProductJSON(label: LabelData) {
+  return JSON.stringify(buildFhirNutritionProduct(label), null, 2);
+}
+
+/* -----------------------------
+   NutritionIntake
+------------------------------ */
+
+/**
+ * What was eaten, from Review's serves or amount. `subject` is the Patient
+ * reference the user enters on Export; R5 requires it, so there is no default.
+ */
+export function buildFhirNutritionIntake(
+  label: LabelData,
+  customGrams?: number,
+  customServes?: number,
+  date: Date = new Date(),
+  subject?: Reference
+): FhirNutritionIntake {
+  // Serves first, as on screen
+  const eaten = consumptionAmount(label, customGrams, customServes);
+  if (eaten.serves == null && eaten.amount == null) throw new Error("NO_CONSUMPTION");
+  if (!subject) throw new Error("NO_SUBJECT");
+
+  const doc = buildJSONDocument(
+    label,
+    "custom",
+    eaten.amount ?? undefined,
+    eaten.serves ?? undefined,
+    "consumption"
+  );
+
+  const amount =
+    eaten.serves != null
+      ? { value: eaten.serves, unit: "serving", system: UCUM, code: "{serving}" }
+      : quantity(eaten.amount!, label.servingSize.unit);
+
+  const ingredientLabel = doc.nutrients.map((n) => ({
+    nutrient: { concept: nutrientConcept(n.key, n.label) },
+    amount: quantity(n.value, n.unit),
+  }));
+
+  const resource: FhirNutritionIntake = {
+    resourceType: "NutritionIntake",
+    status: "completed",
+    subject,
+    occurrenceDateTime: date.toISOString(),
+    consumedItem: [
+      {
+        type: { text: "Food" },
+        nutritionProduct: { concept: productConcept(label) },
+        amount,
+      },
+    ],
+    ...(ingredientLabel.length ? { ingredientLabel } : {}),
+  };
+
+  return assertValid(resource, NUTRITION_INTAKE_SHAPE);
+}
+
+export function buildFhirNutritionIntakeJSON(
+  label: LabelData,
+  customGrams?: number,
+  customServes?: number,
+  subject?: Reference
+) {
+  return JSON.stringify(
+    buildFhirNutritionIntake(label, customGrams, customServes, new Date(), subject),
+    null,
+    2
+  );
+}
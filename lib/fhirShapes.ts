@@ -0,0 +1,223 @@
+// lib/fhirShapes.ts
+// Bundled FHIR R5 shapes for the resources we emit, as JSON Schema subsets
+// trimmed from the official fhir.schema.json (only the elements we use,
+// with R5 cardinalities), plus a small validator so exports are checked
+// offline. Not a full FHIR validator: no invariants, profiles or terminology.
+
+type Shape = {
+  $ref?: string;
+  type?: "object" | "array" | "string" | "number" | "boolean";
+  const?: string | number;
+  enum?: readonly (string | number)[];
+  required?: readonly string[];
+  properties?: Record<string, Shape>;
+  additionalProperties?: boolean;
+  items?: Shape;
+  minItems?: number;
+};
+
+const DEFS: Record<string, Shape> = {
+  Coding: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      system: { type: "string" },
+      code: { type: "string" },
+      display: { type: "string" },
+    },
+  },
+  CodeableConcept: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      coding: { type: "array", items: { $ref: "Coding" } },
+      text: { type: "string" },
+    },
+  },
+  Reference: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      reference: { type: "string" },
+      display: { type: "string" },
+    },
+  },
+  CodeableReference: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      concept: { $ref: "CodeableConcept" },
+      reference: { $ref: "Reference" },
+    },
+  },
+  Quantity: {
+    type: "object",
+    additionalProperties: false,
+    required: ["value"],
+    properties: {
+      value: { type: "number" },
+      unit: { type: "string" },
+      system: { const: "http://unitsofmeasure.org" },
+      code: { type: "string" },
+    },
+  },
+  Ratio: {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      numerator: { $ref: "Quantity" },
+      denominator: { $ref: "Quantity" },
+    },
+  },
+};
+
+export const NUTRITION_PRODUCT_SHAPE: Shape = {
+  type: "object",
+  additionalProperties: false,
+  required: ["resourceType", "status"],
+  properties: {
+    resourceType: { const: "NutritionProduct" },
+    status: { enum: ["active", "inactive", "entered-in-error"] },
+    code: { $ref: "CodeableConcept" },
+    category: { type: "array", items: { $ref: "CodeableConcept" } },
+    nutrient: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          item: { $ref: "CodeableReference" },
+          amount: { type: "array", items: { $ref: "Ratio" } },
+        },
+      },
+    },
+    characteristic: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["type"],
+        properties: {
+          type: { $ref: "CodeableConcept" },
+          valueQuantity: { $ref: "Quantity" },
+          valueString: { type: "string" },
+        },
+      },
+    },
+    instance: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          quantity: { $ref: "Quantity" },
+          name: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+export const NUTRITION_INTAKE_SHAPE: Shape = {
+  type: "object",
+  additionalProperties: false,
+  required: ["resourceType", "status", "subject", "consumedItem"],
+  properties: {
+    resourceType: { const: "NutritionIntake" },
+    status: {
+      enum: [
+        "preparation",
+        "in-progress",
+        "not-done",
+        "on-hold",
+        "stopped",
+        "completed",
+        "entered-in-error",
+        "unknown",
+      ],
+    },
+    code: { $ref: "CodeableConcept" },
+    subject: { $ref: "Reference" },
+    occurrenceDateTime: { type: "string" },
+    recorded: { type: "string" },
+    consumedItem: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["type", "nutritionProduct"],
+        properties: {
+          type: { $ref: "CodeableConcept" },
+          nutritionProduct: { $ref: "CodeableReference" },
+          amount: { $ref: "Quantity" },
+        },
+      },
+    },
+    ingredientLabel: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["nutrient", "amount"],
+        properties: {
+          nutrient: { $ref: "CodeableReference" },
+          amount: { $ref: "Quantity" },
+        },
+      },
+    },
+  },
+};
+
+function typeOf(v: unknown) {
+  if (Array.isArray(v)) return "array";
+  if (v === null) return "null";
+  return typeof v;
+}
+
+function check(v: any, shape: Shape, path: string, errors: string[]) {
+  if (shape.$ref) return check(v, DEFS[shape.$ref], path, errors);
+
+  if (shape.const !== undefined && v !== shape.const) {
+    errors.push(`${path}: expected ${JSON.stringify(shape.const)}`);
+    return;
+  }
+  if (shape.enum && !shape.enum.includes(v)) {
+    errors.push(`${path}: not one of ${shape.enum.join(", ")}`);
+    return;
+  }
+  if (shape.type) {
+    const actual = typeOf(v);
+    const ok = shape.type === "number" ? actual === "number" && Number.isFinite(v) : actual === shape.type;
+    if (!ok) {
+      errors.push(`${path}: expected ${shape.type}, got ${actual}`);
+      return;
+    }
+  }
+
+  if (shape.type === "array") {
+    // FHIR JSON never has empty arrays
+    const min = Math.max(shape.minItems ?? 1, 1);
+    if (v.length < min) errors.push(`${path}: needs at least ${min} item(s)`);
+    if (shape.items) v.forEach((item: any, i: number) => check(item, shape.items!, `${path}[${i}]`, errors));
+  }
+
+  if (shape.type === "object") {
+    for (const key of shape.required ?? []) {
+      if (v[key] === undefined) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, value] of Object.entries(v)) {
+      const prop = shape.properties?.[key];
+      if (prop) check(value, prop, `${path}.${key}`, errors);
+      else if (shape.additionalProperties === false) errors.push(`${path}.${key}: not allowed`);
+    }
+    if (Object.keys(v).length === 0) errors.push(`${path}: empty object`);
+  }
+}
+
+/** Problems with a resource, empty when it fits the shape. */
+export function validateFhir(resource: unknown, shape: Shape): string[] {
+  const errors: string[] = [];
+  check(resource, shape, (resource as any)?.resourceType ?? "$", errors);
+  return errors;
+}
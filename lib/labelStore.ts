@@ -1,6 +1,7 @@
 // lib/labelStore.ts
 import { Platform } from "react-native";
 import type { LabelData } from "./mockLabel";
+import type { OcrRecording } from "./ocrFixture";
 
 const STORAGE_KEY = "nutricopy.currentLabel";
 
@@ -9,6 +10,7 @@ export type StoredLabel = LabelData & {
   debug?: any; // dev-only, opaque payload from /api/ocr when requested
   imageBase64?: string; // DEV ONLY: scan preview for OCR overlay
   fileName?: string; // web-only: name of uploaded image
+  recording?: OcrRecording; // DEV ONLY: raw Vision response for fixture export
 
   // --- timing ---
   labelReadyAtMs?: number;
@@ -33,6 +35,7 @@ export function setCurrentLabel(
     debug?: any;
     imageBase64?: string; // DEV ONLY
     fileName?: string; // web-only: name of uploaded image
+    recording?: OcrRecording; // DEV ONLY
   }
 ) {
   const stored: StoredLabel = {
@@ -41,6 +44,7 @@ export function setCurrentLabel(
   debug: options?.debug,
   imageBase64: options?.imageBase64,
   fileName: options?.fileName,
+  recording: options?.recording,
 
   // timing
   labelReadyAtMs: Date.now(),
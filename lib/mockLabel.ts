@@ -1,20 +1,31 @@
-export type NutrientKey =
-  | "energy_kj"
-  | "energy_kcal"
-  | "protein_g"
-  | "carbs_g"
-  | "fat_g"
-  | "sugars_g"
-  | "fibre_g"
-  | "sodium_mg";
+import type { NutrientKey } from "./nutrients";
+
+export type { NutrientKey };
 
 export type Confidence = "High" | "Med" | "Low";
 
+// "printed" = read off the label; "calculated" = derived from the other column
+export type NutrientSource = "printed" | "calculated";
+
+export type NutrientValue = {
+  value: number; // per serve
+  unit: string;
+  confidence: Confidence;
+  source?: NutrientSource; // of `value`; absent means printed
+  per100?: { value: number; source: NutrientSource }; // per 100 g/mL column
+};
+
+// "2 slices" -> { value: 2, unit: "slices" }
+export type HouseholdMeasure = { value: number; unit: string };
+
 export type LabelData = {
-  basis: "per_serve" | "per_100g";
-  servingSize: { value: number; unit: "g" | "ml" };
+  basis: "per_serve" | "per_100g" | "per_100ml";
+  servingSize: { value: number; unit: "g" | "ml"; household?: HouseholdMeasure };
+  servingsPerPack?: number;
+  netQuantity?: { value: number; unit: "g" | "ml" }; // whole pack
+  density?: number; // g per mL, for converting per 100 g <-> per 100 mL
   name?: string; // user-provided label / product name
-  nutrients: Partial<Record<NutrientKey, { value: number; unit: string; confidence: Confidence }>>;
+  nutrients: Partial<Record<NutrientKey, NutrientValue>>;
   consumption?: {
   customServes?: number;
   customGrams?: number;
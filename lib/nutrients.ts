@@ -0,0 +1,124 @@
+// lib/nutrients.ts
+// Nutrient registry: the single list of nutrients NutriCopy knows about.
+// Screens, exports and OCR parsing all derive from this, so adding a
+// nutrient here is enough for it to be parsed, reviewed and exported.
+
+type NutrientUnit = "kJ" | "kcal" | "g" | "mg" | "mcg";
+
+type NutrientDefInput = {
+  key: string;
+  label: string;
+  unit: NutrientUnit;
+  order: number;
+  parent?: string;
+  core?: boolean; // always listed on Review, even when not detected
+  match: RegExp; // tested against the lower-cased OCR row label
+  maxPerServe?: number; // plausibility cap for OCR'd values
+};
+
+const REGISTRY = [
+  { key: "energy_kj", label: "Energy", unit: "kJ", order: 1, core: true, match: /^(energy|calories)\b/, maxPerServe: 8000 },
+  { key: "energy_kcal", label: "Energy", unit: "kcal", order: 2, core: true, match: /^(energy|calories)\b/, maxPerServe: 2000 },
+
+  { key: "protein_g", label: "Protein", unit: "g", order: 10, core: true, match: /^protein\b/, maxPerServe: 100 },
+
+  { key: "fat_g", label: "Fat", unit: "g", order: 20, core: true, match: /^(total\s+)?fat\b/, maxPerServe: 100 },
+  { key: "saturated_fat_g", label: "Saturated fat", unit: "g", order: 21, parent: "fat_g", match: /(^|[^a-z])saturat(ed|es)\b/, maxPerServe: 100 },
+  { key: "trans_fat_g", label: "Trans fat", unit: "g", order: 22, parent: "fat_g", match: /\btrans\b/, maxPerServe: 50 },
+  { key: "cholesterol_mg", label: "Cholesterol", unit: "mg", order: 25, match: /^cholesterol\b/, maxPerServe: 2000 },
+
+  { key: "carbs_g", label: "Carbohydrate", unit: "g", order: 30, core: true, match: /^(total\s+)?(carbohydrates?|carbs)\b/, maxPerServe: 150 },
+  { key: "sugars_g", label: "Sugars", unit: "g", order: 31, core: true, parent: "carbs_g", match: /\bsugars?\b/, maxPerServe: 100 },
+  { key: "added_sugars_g", label: "Added sugars", unit: "g", order: 32, parent: "sugars_g", match: /\badded\s+sugars?\b/, maxPerServe: 100 },
+  { key: "polyols_g", label: "Polyols", unit: "g", order: 33, parent: "carbs_g", match: /\bpolyols?\b/, maxPerServe: 100 },
+  { key: "fibre_g", label: "Fibre", unit: "g", order: 34, core: true, parent: "carbs_g", match: /\bfib(re|er)\b/, maxPerServe: 60 },
+
+  { key: "sodium_mg", label: "Sodium", unit: "mg", order: 60, core: true, match: /\bsodium\b/, maxPerServe: 5000 },
+  { key: "potassium_mg", label: "Potassium", unit: "mg", order: 61, match: /\bpotassium\b/, maxPerServe: 10000 },
+  { key: "calcium_mg", label: "Calcium", unit: "mg", order: 70, match: /\bcalcium\b/, maxPerServe: 5000 },
+  { key: "iron_mg", label: "Iron", unit: "mg", order: 71, match: /^iron\b/, maxPerServe: 100 },
+  { key: "vitamin_d_mcg", label: "Vitamin D", unit: "mcg", order: 72, match: /\bvitamin\s*d\b/, maxPerServe: 1000 },
+] as const satisfies readonly NutrientDefInput[];
+
+export type NutrientKey = (typeof REGISTRY)[number]["key"];
+
+export type NutrientDef = {
+  key: NutrientKey;
+  label: string;
+  unit: NutrientUnit;
+  order: number;
+  parent?: NutrientKey;
+  core: boolean;
+  match: RegExp;
+  maxPerServe?: number;
+};
+
+/** All nutrients, in display order. */
+export const NUTRIENTS: readonly NutrientDef[] = REGISTRY.map(
+  (d: NutrientDefInput) =>
+    ({ ...d, core: d.core === true }) as NutrientDef
+).sort((a, b) => a.order - b.order);
+
+const BY_KEY = new Map<string, NutrientDef>(NUTRIENTS.map((d) => [d.key, d]));
+
+export function isNutrientKey(key: unknown): key is NutrientKey {
+  return typeof key === "string" && BY_KEY.has(key);
+}
+
+export function getNutrientDef(key: NutrientKey): NutrientDef {
+  return BY_KEY.get(key)!;
+}
+
+export function isEnergyKey(key: NutrientKey) {
+  return key === "energy_kj" || key === "energy_kcal";
+}
+
+/** 0 for top-level nutrients, 1 for "saturated" under "fat", and so on. */
+export function nutrientDepth(key: NutrientKey): number {
+  let depth = 0;
+  let parent = getNutrientDef(key).parent;
+  while (parent) {
+    depth++;
+    parent = getNutrientDef(parent).parent;
+  }
+  return depth;
+}
+
+/** Review / input label, e.g. "Energy (kJ)" vs "Protein". */
+export function nutrientFieldLabel(key: NutrientKey) {
+  const def = getNutrientDef(key);
+  return isEnergyKey(key) ? `${def.label} (${def.unit})` : def.label;
+}
+
+// Most specific first, so "saturated fat" never falls through to "fat".
+const MATCH_ORDER = [...NUTRIENTS].sort(
+  (a, b) => nutrientDepth(b.key) - nutrientDepth(a.key) || a.order - b.order
+);
+
+// Poly- and monounsaturated fat aren't tracked; without this
+// "Fat, polyunsaturated" would read as total fat
+const UNTRACKED_RE = /unsaturat/;
+
+/**
+ * Map an OCR row label ("Fat, saturated", "- Sugars", "Total Carbohydrate")
+ * to a nutrient. Energy always resolves to energy_kj; callers pick kJ vs kcal
+ * from the value's unit (see energyKeyForUnit).
+ */
+export function matchNutrientKey(labelText: string): NutrientKey | null {
+  const s = labelText
+    .toLowerCase()
+    .replace(/^[\s\-–—•·]+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!s) return null;
+  if (UNTRACKED_RE.test(s)) return null;
+
+  const def = MATCH_ORDER.find((d) => d.match.test(s));
+  return def ? def.key : null;
+}
+
+export function energyKeyForUnit(unit: string): NutrientKey | null {
+  if (/^kj$/i.test(unit)) return "energy_kj";
+  if (/^(kcal|cal)$/i.test(unit)) return "energy_kcal";
+  return null;
+}
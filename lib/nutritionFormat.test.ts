@@ -0,0 +1,40 @@
+// lib/nutritionFormat.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { mockLabel, type LabelData } from "./mockLabel";
+import { buildJSONLDDocument, buildPlainText, getReviewRows } from "./nutritionFormat";
+
+// mockLabel: 60 g serve, 12 g protein
+
+test("JSON-LD servingSize matches the values when serves and grams are both set", () => {
+  // Serves win over grams, as in basisValue
+  const doc = buildJSONLDDocument(mockLabel, "custom", 30, 2, "consumption");
+  assert.equal(doc.nutrition.servingSize, "2 servings (120 g)");
+  assert.equal(doc.nutrition.proteinContent, "24 g");
+});
+
+test("JSON-LD servingSize uses grams when only grams are set", () => {
+  const doc = buildJSONLDDocument(mockLabel, "custom", 30, undefined, "consumption");
+  assert.equal(doc.nutrition.servingSize, "30 g");
+  assert.equal(doc.nutrition.proteinContent, "6 g");
+});
+
+test("plain text labels follow the export locale", () => {
+  const riegel = { ...mockLabel, name: "Riegel" };
+  const text = buildPlainText(riegel, "custom", 30, undefined, "consumption", "default", null, "de");
+  const lines = text.split("\n");
+  assert.equal(lines[0], "Lebensmittel: Riegel");
+  assert.equal(lines[1], "Portionsgröße: 60g");
+  assert.ok(lines.includes("Modus: Verzehr (abgeleitet)"));
+  assert.ok(lines.includes("Verzehrte Gramm: 30"));
+});
+
+test("review rows skip nutrient keys the registry doesn't know", () => {
+  const stored = {
+    ...mockLabel,
+    nutrients: { ...mockLabel.nutrients, omega3_g: { value: 1, unit: "g", confidence: "High" } },
+  } as LabelData;
+  const rows = getReviewRows(stored, "per_serve");
+  assert.ok(rows.length > 0);
+  assert.ok(rows.every((r) => r.id !== "omega3_g"));
+});
@@ -1,13 +1,49 @@
 // lib/nutritionFormat.ts
-import type { Confidence, LabelData, NutrientKey } from "./mockLabel";
-
-export type Basis = "per_serve" | "per_100g" | "custom";
+import type {
+  Confidence,
+  HouseholdMeasure,
+  LabelData,
+  NutrientKey,
+  NutrientSource,
+  NutrientValue,
+} from "./mockLabel";
+import {
+  formatPercent,
+  getDailyValueTable,
+  percentDailyValue,
+  type DailyValueTableId,
+} from "./dailyValues";
+import {
+  exportText,
+  localizeCsv,
+  localizeText,
+  nutrientName,
+  type ExportLocaleId,
+} from "./exportLocale";
+import { EXPORT_JSON_VERSION, EXPORT_SCHEMA_ID } from "./exportSchema";
+import { NUTRIENTS, getNutrientDef, isEnergyKey, isNutrientKey, nutrientDepth } from "./nutrients";
+import { roundNutrient, roundingProfileLabel, type RoundingProfileId } from "./rounding";
+
+export type Basis =
+  | "per_serve"
+  | "per_100g"
+  | "per_100ml"
+  | "per_unit" // one household unit, e.g. 1 slice of a 2-slice serve
+  | "per_pack"
+  | "custom";
+
+type Per100Basis = "per_100g" | "per_100ml";
+export type ViewBasis = Exclude<Basis, "custom">;
+type AmountUnit = LabelData["servingSize"]["unit"];
 
 type Row = {
   id: string;
   label: string;
   valueText: string; // already formatted + includes units where appropriate
   confidence?: Confidence;
+  depth: number; // 0 = top level, 1 = "saturated" under "fat", ...
+  source: NutrientSource; // printed on the label vs calculated by us
+  percentText?: string; // "12%", only when a daily-value table is chosen
 };
 
 const CONF_RANK: Record<Confidence, number> = {
@@ -26,53 +62,282 @@ function toPer100(value: number, servingSizeG: number) {
   return (value / servingSizeG) * 100;
 }
 
-function formatNumber(value: number, unit: string) {
-  // MVP rounding rules (keep consistent everywhere)
-  if (unit === "kJ" || unit === "kcal" || unit === "mg") return String(Math.round(value));
-  return String(Math.round(value * 10) / 10); // 1 dp for grams etc.
+// The label's own per-100 figure when printed, else derived from the serve.
+// Both are per 100 of the serving-size unit.
+function per100Of(n: NutrientValue, servingSizeG: number) {
+  return n.per100 ?? { value: toPer100(n.value, servingSizeG), source: "calculated" as const };
 }
 
-const META: Record<
-  NutrientKey,
-  { label: string; order: number; unitHint?: string }
-> = {
-  energy_kj: { label: "Energy", order: 1, unitHint: "kJ" },
-  energy_kcal: { label: "Energy", order: 2, unitHint: "kcal" },
-
-  protein_g: { label: "Protein", order: 10, unitHint: "g" },
-  carbs_g: { label: "Carbohydrate", order: 20, unitHint: "g" },
-  fat_g: { label: "Fat", order: 30, unitHint: "g" },
-  sugars_g: { label: "Sugars", order: 40, unitHint: "g" },
-  fibre_g: { label: "Fibre", order: 50, unitHint: "g" },
-  sodium_mg: { label: "Sodium", order: 60, unitHint: "mg" },
-};
+function isPer100(basis: Basis): basis is Per100Basis {
+  return basis === "per_100g" || basis === "per_100ml";
+}
+
+function per100Unit(basis: Per100Basis): AmountUnit {
+  return basis === "per_100ml" ? "ml" : "g";
+}
+
+/** The per-100 basis the label itself uses: liquids are per 100 mL. */
+export function per100Basis(label: LabelData): Per100Basis {
+  return label.servingSize.unit === "ml" ? "per_100ml" : "per_100g";
+}
+
+function formatAmount(n: number) {
+  return String(Math.round(n * 100) / 100);
+}
+
+export function formatHousehold(h: HouseholdMeasure) {
+  return `${formatAmount(h.value)} ${h.unit}`;
+}
+
+// "slices" -> "slice", "patties" -> "patty", "glasses" -> "glass"
+function singularUnit(unit: string) {
+  if (/ies$/.test(unit)) return unit.replace(/ies$/, "y");
+  if (/(?:ss|sh|ch|x)es$/.test(unit)) return unit.replace(/es$/, "");
+  if (/[^s]s$/.test(unit)) return unit.slice(0, -1);
+  return unit;
+}
+
+/** Servings in the whole pack: printed, else net quantity / serving size. */
+export function servingsInPack(label: LabelData): number | null {
+  if (label.servingsPerPack && label.servingsPerPack > 0) return label.servingsPerPack;
+
+  const net = label.netQuantity;
+  const serving = label.servingSize;
+  if (net && net.unit === serving.unit && serving.value >= 5) return net.value / serving.value;
+  return null;
+}
+
+/**
+ * Bases a label can be shown in. The other per-100 unit needs a density;
+ * per unit needs a household measure of more than one unit.
+ */
+export function availableBases(label: LabelData): ViewBasis[] {
+  const own = per100Basis(label);
+  const bases: ViewBasis[] = ["per_serve", own];
+
+  if (label.density) bases.push(own === "per_100g" ? "per_100ml" : "per_100g");
+  const household = label.servingSize.household;
+  if (household && household.value !== 1) bases.push("per_unit");
+  if (servingsInPack(label) != null) bases.push("per_pack");
+
+  return bases;
+}
+
+export function basisLabel(basis: Basis, label?: LabelData, locale: ExportLocaleId = "en") {
+  const t = exportText(locale);
+  if (basis === "per_serve") return t.perServe;
+  if (basis === "per_100g") return t.per100g;
+  if (basis === "per_100ml") return t.per100ml;
+  if (basis === "per_unit") {
+    const household = label?.servingSize.household;
+    return household ? `${t.per} ${singularUnit(household.unit)}` : t.perUnit;
+  }
+  if (basis === "per_pack") return t.perPack;
+  return "custom";
+}
+
+/** Consumption amounts are entered in the serving-size unit. */
+export function amountEatenLabel(label: LabelData, locale: ExportLocaleId = "en") {
+  const t = exportText(locale);
+  return label.servingSize.unit === "ml" ? t.millilitresEaten : t.gramsEaten;
+}
+
+/**
+ * Per 100 g / 100 mL. Crossing units goes through density (g per mL):
+ * 100 g of a 1.03 g/mL drink is 97 mL. Null when no density is known.
+ */
+function per100In(
+  n: NutrientValue,
+  label: LabelData,
+  unit: AmountUnit
+): { value: number; source: NutrientSource } | null {
+  const own = per100Of(n, label.servingSize.value);
+  if (unit === label.servingSize.unit) return own;
+
+  const density = label.density;
+  if (!density || !(density > 0)) return null;
+
+  return {
+    value: unit === "g" ? own.value / density : own.value * density,
+    source: "calculated",
+  };
+}
+
+function mergeSource(a?: NutrientSource, b?: NutrientSource): NutrientSource {
+  return a === "calculated" || b === "calculated" ? "calculated" : "printed";
+}
+
+function per100Note(label: LabelData, locale: ExportLocaleId) {
+  const t = exportText(locale);
+  const all = Object.values(label.nutrients).filter(Boolean) as NutrientValue[];
+  const printed = all.filter((n) => n.per100?.source === "printed").length;
+  if (all.length && printed === all.length) return t.asPrinted;
+  return printed ? t.partlyCalculated : t.calculated;
+}
+
+// Flag calculated figures, except in custom mode where every value is derived
+function sourceSuffix(r: Row, basis: Basis, locale: ExportLocaleId) {
+  return basis !== "custom" && r.source === "calculated" ? ` (${exportText(locale).calculated})` : "";
+}
+
+// Only non-default rounding is worth a line in pasted text; CSV always records it
+export function roundingLine(rounding: RoundingProfileId, locale: ExportLocaleId = "en") {
+  if (rounding === "default") return null;
+  return `${exportText(locale).rounding}: ${roundingProfileLabel(rounding)}`;
+}
+
+export function dailyValuesLine(dailyValues: DailyValueTableId | null, locale: ExportLocaleId = "en") {
+  if (!dailyValues) return null;
+  const t = exportText(locale);
+  const table = getDailyValueTable(dailyValues);
+  return `${t.dailyValues}: ${table.term} ${t.from} ${table.label}, ${t.calculated}`;
+}
+
+// " — 12% DI"
+function percentSuffix(r: Row, dailyValues: DailyValueTableId | null) {
+  if (!dailyValues || !r.percentText) return "";
+  return ` — ${r.percentText} ${getDailyValueTable(dailyValues).term.slice(1)}`;
+}
+
+function percentOf(
+  key: NutrientKey,
+  value: number | undefined,
+  dailyValues: DailyValueTableId | null
+) {
+  if (!dailyValues || value == null) return null;
+  return percentDailyValue(key, value, dailyValues);
+}
+
+function densityNote(label: LabelData, basis: Per100Basis, locale: ExportLocaleId) {
+  if (per100Unit(basis) === label.servingSize.unit) return "";
+  const t = exportText(locale);
+  return label.density ? ` ${t.viaDensity} ${label.density} g/mL` : `, ${t.needsDensity}`;
+}
+
+// "60g (2 slices)"
+function servingText(label: LabelData) {
+  const { value, unit, household } = label.servingSize;
+  return household ? `${value}${unit} (${formatHousehold(household)})` : `${value}${unit}`;
+}
+
+// What one unit / the whole pack weighs, e.g. "1 slice (30g)", "8 serves (480g)"
+function scaledServingText(
+  label: LabelData,
+  basis: "per_unit" | "per_pack",
+  locale: ExportLocaleId = "en"
+) {
+  const { value, unit, household } = label.servingSize;
+
+  if (basis === "per_unit") {
+    if (!household) return "—";
+    return `1 ${singularUnit(household.unit)} (${formatAmount(value / household.value)}${unit})`;
+  }
+
+  const serves = servingsInPack(label);
+  if (serves == null) return "—";
+  const net = label.netQuantity ?? { value: value * serves, unit };
+  return `${formatAmount(serves)} ${exportText(locale).serves} (${formatAmount(net.value)}${net.unit})`;
+}
 
-export function servingSizeText(label: LabelData, basis: Basis) {
-  const serving = `${label.servingSize.value}${label.servingSize.unit}`;
-  if (basis === "per_100g") return `${serving} → 100g`;
+export function servingSizeText(label: LabelData, basis: Basis, locale: ExportLocaleId = "en") {
+  const serving = servingText(label);
+  if (isPer100(basis)) return `${serving} → 100${per100Unit(basis)}`;
+  if (basis === "per_unit" || basis === "per_pack") {
+    return `${serving} → ${scaledServingText(label, basis, locale)}`;
+  }
   return serving;
 }
 
-export function servingSizeLine(label: LabelData, basis: Basis) {
-  const serving = `${label.servingSize.value}${label.servingSize.unit}`;
-  if (basis === "per_100g") return `Serving size: ${serving} → 100g (calculated)`;
-  return `Serving size: ${serving}`;
+export function servingSizeLine(label: LabelData, basis: Basis, locale: ExportLocaleId = "en") {
+  const t = exportText(locale);
+  const serving = servingText(label);
+  if (isPer100(basis)) {
+    const note =
+      per100Unit(basis) === label.servingSize.unit ? per100Note(label, locale) : t.calculated;
+    const density = densityNote(label, basis, locale);
+    return `${t.servingSize}: ${serving} → 100${per100Unit(basis)} (${note}${density})`;
+  }
+  if (basis === "per_unit" || basis === "per_pack") {
+    return `${t.servingSize}: ${serving} → ${scaledServingText(label, basis, locale)} (${t.calculated})`;
+  }
+  return `${t.servingSize}: ${serving}`;
 }
 
-export function getReviewRows(
+function basisValue(
+  n: NutrientValue,
   label: LabelData,
   basis: Basis,
-  customGrams?: number,
-  customServes?: number
-): Row[] {
-  const nutrients = label.nutrients;
+  customGrams: number | undefined,
+  customServes: number | undefined,
+  canUseCustomServes: boolean
+): { value: number; source: NutrientSource } | null {
+  const servingSize = label.servingSize.value;
+
+  if (isPer100(basis)) return per100In(n, label, per100Unit(basis));
+
+  if (basis === "per_unit") {
+    const household = label.servingSize.household;
+    if (!household) return null;
+    return { value: n.value / household.value, source: "calculated" };
+  }
+
+  if (basis === "per_pack") {
+    const serves = servingsInPack(label);
+    if (serves == null) return null;
+    return { value: n.value * serves, source: "calculated" };
+  }
+
+  if (canUseCustomServes) {
+    return { value: n.value * customServes!, source: "calculated" };
+  }
+
+  if (basis === "custom" && Number.isFinite(customGrams) && servingSize > 0) {
+    // Scale from the printed per-100 column when the label has one
+    const per100 = per100Of(n, servingSize).value;
+    return { value: (per100 * customGrams!) / 100, source: "calculated" };
+  }
+
+  return { value: n.value, source: n.source ?? "printed" };
+}
 
-  const canUseCustomServes =
+function customServesUsable(label: LabelData, basis: Basis, customServes?: number) {
+  return (
     basis === "custom" &&
     Number.isFinite(customServes) &&
     customServes! > 0 &&
     label.servingSize.value >= 5 &&
-    (label.servingSize.unit === "g" || label.servingSize.unit === "ml");
+    (label.servingSize.unit === "g" || label.servingSize.unit === "ml")
+  );
+}
+
+/**
+ * The Review amount consumption figures are based on: serves when they can
+ * be applied, as in basisValue, else the grams / mL eaten.
+ */
+export function consumptionAmount(
+  label: LabelData,
+  customGrams?: number,
+  customServes?: number
+): { serves: number | null; amount: number | null } {
+  if (customServesUsable(label, "custom", customServes)) {
+    return { serves: customServes!, amount: null };
+  }
+  if (Number.isFinite(customGrams)) return { serves: null, amount: customGrams! };
+  return { serves: null, amount: null };
+}
+
+export function getReviewRows(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
+): Row[] {
+  const nutrients = label.nutrients;
+
+  const canUseCustomServes = customServesUsable(label, basis, customServes);
 
   const rows: Row[] = [];
 
@@ -84,73 +349,71 @@ export function getReviewRows(
   if (kj || kcal) {
     const servingSize = label.servingSize.value;
 
-    let kjValue = kj?.value;
-    let kcalValue = kcal?.value;
-
-    if (basis === "per_100g") {
-      if (kjValue != null) kjValue = toPer100(kjValue, servingSize);
-      if (kcalValue != null) kcalValue = toPer100(kcalValue, servingSize);
-    }
-
-    if (canUseCustomServes) {
-      if (kjValue != null) kjValue *= customServes!;
-      if (kcalValue != null) kcalValue *= customServes!;
-    } else if (
-      basis === "custom" &&
-      Number.isFinite(customGrams) &&
-      servingSize > 0
-    ) {
-      if (kjValue != null) kjValue *= customGrams! / servingSize;
-      if (kcalValue != null) kcalValue *= customGrams! / servingSize;
-    }
+    const kjOut = kj ? basisValue(kj, label, basis, customGrams, customServes, canUseCustomServes) : null;
+    const kcalOut = kcal ? basisValue(kcal, label, basis, customGrams, customServes, canUseCustomServes) : null;
+    const kjValue = kjOut?.value;
+    const kcalValue = kcalOut?.value;
 
     const kjText =
-      kjValue != null ? `${formatNumber(kjValue, kj!.unit)} ${kj!.unit}` : "";
+      kjValue != null ? `${roundNutrient("energy_kj", kjValue, rounding)} ${kj!.unit}` : "";
     const kcalText =
-      kcalValue != null ? `${formatNumber(kcalValue, kcal!.unit)} ${kcal!.unit}` : "";
+      kcalValue != null ? `${roundNutrient("energy_kcal", kcalValue, rounding)} ${kcal!.unit}` : "";
 
     const valueText =
       kjText && kcalText ? `${kjText} (${kcalText})` : kjText || kcalText;
 
-    rows.push({
+    // Tables give energy in kJ or kcal; use whichever they have
+    const energyPercent =
+      percentOf("energy_kj", kjValue, dailyValues) ??
+      percentOf("energy_kcal", kcalValue, dailyValues);
+
+    // Per-100 in the other unit without a density: nothing to show
+    if (valueText) rows.push({
       id: "energy",
-      label: "Energy",
-      valueText,
+      label: nutrientName("energy", locale),
+      valueText: localizeText(valueText, locale),
       confidence: minConfidence(kj?.confidence, kcal?.confidence),
+      depth: 0,
+      source: mergeSource(kjOut?.source, kcalOut?.source),
+      ...(energyPercent != null
+        ? { percentText: localizeText(formatPercent(energyPercent), locale) }
+        : {}),
     });
   }
 
   /* ---------------- Other nutrients ---------------- */
 
-  const otherKeys = (Object.keys(nutrients) as NutrientKey[])
-    .filter((k) => k !== "energy_kj" && k !== "energy_kcal")
-    .sort((a, b) => META[a].order - META[b].order);
+  // Labels saved by older versions can carry keys the registry has dropped
+  const otherKeys = Object.keys(nutrients)
+    .filter(isNutrientKey)
+    .filter((k) => !isEnergyKey(k))
+    .sort((a, b) => getNutrientDef(a).order - getNutrientDef(b).order);
 
   for (const key of otherKeys) {
     const n = nutrients[key];
     if (!n) continue;
 
-    let value = n.value;
-
-    if (basis === "per_100g") {
-      value = toPer100(value, label.servingSize.value);
-    }
+    const out = basisValue(
+      n,
+      label,
+      basis,
+      customGrams,
+      customServes,
+      canUseCustomServes
+    );
+    if (!out) continue;
+    const { value, source } = out;
 
-    if (canUseCustomServes) {
-      value *= customServes!;
-    } else if (
-      basis === "custom" &&
-      Number.isFinite(customGrams) &&
-      label.servingSize.value > 0
-    ) {
-      value *= customGrams! / label.servingSize.value;
-    }
+    const percent = percentOf(key, value, dailyValues);
 
     rows.push({
       id: key,
-      label: META[key]?.label ?? key,
-      valueText: `${formatNumber(value, n.unit)} ${n.unit}`,
+      label: nutrientName(key, locale),
+      valueText: localizeText(`${roundNutrient(key, value, rounding)} ${n.unit}`, locale),
       confidence: n.confidence,
+      depth: nutrientDepth(key),
+      source,
+      ...(percent != null ? { percentText: localizeText(formatPercent(percent), locale) } : {}),
     });
   }
 
@@ -163,36 +426,43 @@ export function buildPlainText(
   basis: Basis,
   customGrams?: number,
   customServes?: number,
-  mode: "label" | "consumption" = "label"
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
+  const t = exportText(locale);
   const lines: string[] = [];
 
   if (label.name) {
-    lines.push(`Food: ${label.name}`);
+    lines.push(`${t.food}: ${label.name}`);
   }
 
-  lines.push(servingSizeLine(label, basis));
+  lines.push(localizeText(servingSizeLine(label, basis, locale), locale));
+
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) lines.push(roundingText);
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) lines.push(dailyValuesText);
 
   if (mode === "consumption") {
-    lines.push("Mode: Consumption (derived)");
+    lines.push(t.consumptionMode);
 
     if (Number.isFinite(customServes)) {
-      lines.push(`Serves eaten: ${customServes}`);
+      lines.push(`${t.servesEaten}: ${localizeText(String(customServes), locale)}`);
     }
 
     if (Number.isFinite(customGrams)) {
-      lines.push(`Grams eaten: ${customGrams}`);
+      lines.push(`${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`);
     }
 
-    lines.push(
-      "Calculation note: Derived from label serving size and macros."
-    );
+    lines.push(t.calculationNote);
   }
 
 
-  const rows = getReviewRows(label, basis, customGrams, customServes);
+  const rows = getReviewRows(label, basis, customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    lines.push(`${r.label}: ${r.valueText}`);
+    lines.push(`${r.label}: ${r.valueText}${sourceSuffix(r, basis, locale)}${percentSuffix(r, dailyValues)}`);
   }
 
   return lines.join("\n");
@@ -204,51 +474,165 @@ export function buildMarkdown(
   basis: Basis,
   customGrams?: number,
   customServes?: number,
-  mode: "label" | "consumption" = "label"
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
+  const t = exportText(locale);
   const lines: string[] = [];
 
   if (label.name) {
-    lines.push(`Food: ${label.name}`);
+    lines.push(`${t.food}: ${label.name}`);
   }
 
 
-  lines.push(servingSizeLine(label, basis));
+  lines.push(localizeText(servingSizeLine(label, basis, locale), locale));
+
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) lines.push(roundingText);
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) lines.push(dailyValuesText);
   lines.push("");
 
   if (mode === "consumption") {
-    lines.push("Mode: Consumption (derived)");
+    lines.push(t.consumptionMode);
 
     if (Number.isFinite(customServes)) {
-      lines.push(`- Serves eaten: ${customServes}`);
+      lines.push(`- ${t.servesEaten}: ${localizeText(String(customServes), locale)}`);
     }
 
     if (Number.isFinite(customGrams)) {
-      lines.push(`- Grams eaten: ${customGrams}`);
+      lines.push(`- ${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`);
     }
 
-    lines.push(
-      "- Calculation note: Derived from label serving size and macros."
-    );
+    lines.push(`- ${t.calculationNote}`);
     lines.push("");
   }
 
 
-  const rows = getReviewRows(label, basis, customGrams, customServes);
+  const rows = getReviewRows(label, basis, customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    lines.push(`- ${r.label}: ${r.valueText}`);
+    lines.push(
+      `${"  ".repeat(r.depth)}- ${r.label}: ${r.valueText}${sourceSuffix(r, basis, locale)}${percentSuffix(r, dailyValues)}`
+    );
   }
 
   return lines.join("\n");
 }
 
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_CELL = "border:1px solid #999;padding:4px 8px";
+
+/**
+ * HTML fragment (heading lines + table) for rich clipboard paste into Docs,
+ * Word or email. Same rows and notes as the Markdown export; inline styles
+ * only, since that is what survives a paste.
+ */
+export function buildHTMLTable(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
+) {
+  const t = exportText(locale);
+  const lines: string[] = [];
+
+  if (label.name) lines.push(`<strong>${escapeHtml(t.food)}: ${escapeHtml(label.name)}</strong>`);
+  lines.push(escapeHtml(localizeText(servingSizeLine(label, basis, locale), locale)));
+
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) lines.push(escapeHtml(roundingText));
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) lines.push(escapeHtml(dailyValuesText));
+
+  if (mode === "consumption") {
+    lines.push(escapeHtml(t.consumptionMode));
+    if (Number.isFinite(customServes)) lines.push(`${t.servesEaten}: ${localizeText(String(customServes), locale)}`);
+    if (Number.isFinite(customGrams)) lines.push(`${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`);
+  }
+
+  const term = dailyValues ? getDailyValueTable(dailyValues).term : null;
+  const header = [t.nutrient, `${t.amount} (${basisLabel(basis, label, locale)})`, ...(term ? [term] : [])]
+    .map((h) => `<th style="${HTML_CELL};text-align:left">${escapeHtml(h)}</th>`)
+    .join("");
+
+  const rows = getReviewRows(label, basis, customGrams, customServes, rounding, dailyValues, locale)
+    .map((r) => {
+      const indent = `padding-left:${8 + r.depth * 16}px`;
+      const value = escapeHtml(r.valueText + sourceSuffix(r, basis, locale));
+      const cells = [
+        `<td style="${HTML_CELL};${indent}">${escapeHtml(r.label)}</td>`,
+        `<td style="${HTML_CELL};text-align:right">${value}</td>`,
+        ...(term
+          ? [`<td style="${HTML_CELL};text-align:right">${escapeHtml(r.percentText ?? "")}</td>`]
+          : []),
+      ];
+      return `<tr>${cells.join("")}</tr>`;
+    })
+    .join("");
+
+  return (
+    lines.map((l) => `<p style="margin:0">${l}</p>`).join("") +
+    `<table style="border-collapse:collapse;margin-top:8px"><thead><tr>${header}</tr></thead>` +
+    `<tbody>${rows}</tbody></table>`
+  );
+}
+
+
+// The %DV column is only added when a daily-value table is chosen
+function csvNutrientHeader(dailyValues: DailyValueTableId | null) {
+  const base = "Nutrient,Value,Unit";
+  return dailyValues ? `${base},${getDailyValueTable(dailyValues).term}` : base;
+}
+
+function csvNutrientRow(r: Row, dailyValues: DailyValueTableId | null) {
+  const simple = r.valueText.match(/^(<?-?[\d.]+)\s([a-zA-Z]+)$/);
+  const line = simple
+    ? `${r.label},${simple[1]},${simple[2]}`
+    : `${r.label},"${r.valueText.replace(/"/g, '""')}",`;
+
+  if (!dailyValues) return line;
+  return `${line},${r.percentText?.replace("%", "") ?? ""}`;
+}
+
+// "." numbers so csvNutrientRow can split value and unit; localizeCsv
+// localises the finished document
+function csvRows(
+  label: LabelData,
+  basis: Basis,
+  customGrams: number | undefined,
+  customServes: number | undefined,
+  rounding: RoundingProfileId,
+  dailyValues: DailyValueTableId | null,
+  locale: ExportLocaleId
+): Row[] {
+  return getReviewRows(label, basis, customGrams, customServes, rounding, dailyValues).map((r) => ({
+    ...r,
+    label: nutrientName(r.id, locale),
+  }));
+}
 
 export function buildCSV(
   label: LabelData,
   basis: Basis,
   customGrams?: number,
   customServes?: number,
-  mode: "label" | "consumption" = "label"
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
   const lines: string[] = [];
 
@@ -263,26 +647,37 @@ if (label.name) {
 }
 
 lines.push(`Export mode,${mode},`);
-lines.push(
-  `Basis,${
-    basis === "per_serve"
-      ? "per serve"
-      : basis === "per_100g"
-      ? "per 100 g"
-      : "custom"
-  },`
-);
+lines.push(`Basis,${basisLabel(basis, label)},`);
+lines.push(`Rounding,${rounding},`);
+if (dailyValues) lines.push(`Daily values,${dailyValues},`);
 
 lines.push(
   `Serving size,${label.servingSize.value},${label.servingSize.unit}`
 );
 
+if (label.servingSize.household) {
+  const { value, unit } = label.servingSize.household;
+  lines.push(`Household measure,${value},"${unit.replace(/"/g, '""')}"`);
+}
+
+if (label.servingsPerPack) {
+  lines.push(`Servings per pack,${label.servingsPerPack},`);
+}
+
+if (label.netQuantity) {
+  lines.push(`Net quantity,${label.netQuantity.value},${label.netQuantity.unit}`);
+}
+
+if (label.density) {
+  lines.push(`Density,${label.density},g/mL`);
+}
+
 if (Number.isFinite(customServes)) {
   lines.push(`Serves eaten,${customServes},`);
 }
 
 if (Number.isFinite(customGrams)) {
-  lines.push(`Grams eaten,${customGrams},`);
+  lines.push(`${amountEatenLabel(label)},${customGrams},`);
 }
 
 if (mode === "consumption") {
@@ -295,22 +690,14 @@ if (mode === "consumption") {
 lines.push(",,");
 
 
-  lines.push("Nutrient,Value,Unit");
+  lines.push(csvNutrientHeader(dailyValues));
 
-  const rows = getReviewRows(label, basis, customGrams, customServes);
+  const rows = csvRows(label, basis, customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    const simple = r.valueText.match(/^(-?[\d.]+)\s([a-zA-Z]+)$/);
-
-    if (simple) {
-      const [, value, unit] = simple;
-      lines.push(`${r.label},${value},${unit}`);
-    } else {
-      const escaped = r.valueText.replace(/"/g, '""');
-      lines.push(`${r.label},"${escaped}",`);
-    }
+    lines.push(csvNutrientRow(r, dailyValues));
   }
 
-  return lines.join("\n");
+  return localizeCsv(lines.join("\n"), locale);
 }
 
 
@@ -320,25 +707,32 @@ export function buildConsumptionPlainText(
   label: LabelData,
   basis: Basis,
   customGrams?: number,
-  customServes?: number
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
+  const t = exportText(locale);
   const lines: string[] = [];
 
-  if (label.name) lines.push(`Food: ${label.name}`);
-  lines.push("Mode: Consumption (derived)");
-  lines.push(servingSizeLine(label, basis));
+  if (label.name) lines.push(`${t.food}: ${label.name}`);
+  lines.push(t.consumptionMode);
+  lines.push(localizeText(servingSizeLine(label, basis, locale), locale));
 
-  if (Number.isFinite(customServes)) lines.push(`Serves eaten: ${customServes}`);
-  if (Number.isFinite(customGrams)) lines.push(`Grams eaten: ${customGrams}`);
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) lines.push(roundingText);
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) lines.push(dailyValuesText);
 
-  lines.push(
-    'Calculation note: Derived from label serving size and macros.'
-  );
+  if (Number.isFinite(customServes)) lines.push(`${t.servesEaten}: ${localizeText(String(customServes), locale)}`);
+  if (Number.isFinite(customGrams)) lines.push(`${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`);
+
+  lines.push(t.calculationNote);
   lines.push("");
 
-  const rows = getReviewRows(label, "custom", customGrams, customServes);
+  const rows = getReviewRows(label, "custom", customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    lines.push(`${r.label}: ${r.valueText}`);
+    lines.push(`${r.label}: ${r.valueText}${percentSuffix(r, dailyValues)}`);
   }
 
   return lines.join("\n");
@@ -348,23 +742,32 @@ export function buildConsumptionMarkdown(
   label: LabelData,
   basis: Basis,
   customGrams?: number,
-  customServes?: number
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
+  const t = exportText(locale);
   const lines: string[] = [];
 
-  if (label.name) lines.push(`Food: ${label.name}`);
-  lines.push("Mode: Consumption (derived)");
-  lines.push(servingSizeLine(label, basis));
+  if (label.name) lines.push(`${t.food}: ${label.name}`);
+  lines.push(t.consumptionMode);
+  lines.push(localizeText(servingSizeLine(label, basis, locale), locale));
+
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) lines.push(roundingText);
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) lines.push(dailyValuesText);
   lines.push("");
 
-  if (Number.isFinite(customServes)) lines.push(`- Serves eaten: ${customServes}`);
-  if (Number.isFinite(customGrams)) lines.push(`- Grams eaten: ${customGrams}`);
-  lines.push(`- Calculation note: Derived from label serving size and macros.`);
+  if (Number.isFinite(customServes)) lines.push(`- ${t.servesEaten}: ${localizeText(String(customServes), locale)}`);
+  if (Number.isFinite(customGrams)) lines.push(`- ${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`);
+  lines.push(`- ${t.calculationNote}`);
   lines.push("");
 
-  const rows = getReviewRows(label, "custom", customGrams, customServes);
+  const rows = getReviewRows(label, "custom", customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    lines.push(`- ${r.label}: ${r.valueText}`);
+    lines.push(`${"  ".repeat(r.depth)}- ${r.label}: ${r.valueText}${percentSuffix(r, dailyValues)}`);
   }
 
   return lines.join("\n");
@@ -374,35 +777,243 @@ export function buildConsumptionCSV(
   label: LabelData,
   basis: Basis,
   customGrams?: number,
-  customServes?: number
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en"
 ) {
   const lines: string[] = [];
 
   lines.push("Field,Value,Unit");
   if (label.name) lines.push(`Food,"${label.name.replace(/"/g, '""')}",`);
   lines.push(`Mode,Consumption,`);
+  lines.push(`Rounding,${rounding},`);
+  if (dailyValues) lines.push(`Daily values,${dailyValues},`);
   lines.push(`Serving size,${label.servingSize.value},${label.servingSize.unit}`);
 
   if (Number.isFinite(customServes)) lines.push(`Serves eaten,${customServes},`);
-  if (Number.isFinite(customGrams)) lines.push(`Grams eaten,${customGrams},`);
+  if (Number.isFinite(customGrams)) lines.push(`${amountEatenLabel(label)},${customGrams},`);
 
   lines.push(`Calculation note,"Derived from label serving size and macros.",`);
   lines.push(",,");
 
-  lines.push("Nutrient,Value,Unit");
+  lines.push(csvNutrientHeader(dailyValues));
 
-  const rows = getReviewRows(label, "custom", customGrams, customServes);
+  const rows = csvRows(label, "custom", customGrams, customServes, rounding, dailyValues, locale);
   for (const r of rows) {
-    const simple = r.valueText.match(/^(-?[\d.]+)\s([a-zA-Z]+)$/);
-    if (simple) {
-      const [, value, unit] = simple;
-      lines.push(`${r.label},${value},${unit}`);
-    } else {
-      const escaped = r.valueText.replace(/"/g, '""');
-      lines.push(`${r.label},"${escaped}",`);
-    }
+    lines.push(csvNutrientRow(r, dailyValues));
   }
 
-  return lines.join("\n");
+  return localizeCsv(lines.join("\n"), locale);
+}
+
+
+
+// ---------- JSON export (typed; schema in lib/exportSchema) ----------
+
+export type ExportJsonNutrient = {
+  key: NutrientKey;
+  label: string;
+  value: number;
+  unit: string;
+  display: string; // rounded by the profile, e.g. "<1"
+  confidence: Confidence;
+  source: NutrientSource;
+  percentDailyValue?: number;
+};
+
+export type ExportJson = {
+  $schema: string;
+  version: number;
+  name?: string;
+  mode: "label" | "consumption";
+  basis: Basis;
+  servingSize: LabelData["servingSize"];
+  servingsPerPack?: number;
+  netQuantity?: LabelData["netQuantity"];
+  density?: number;
+  consumption?: { serves?: number; amount?: number; amountUnit?: AmountUnit };
+  rounding: RoundingProfileId;
+  dailyValues: DailyValueTableId | null;
+  nutrients: ExportJsonNutrient[];
+};
+
+// Strip float noise (0.30000000000000004) without rounding to label precision
+function cleanNumber(n: number) {
+  return Number(n.toFixed(4));
+}
+
+export function buildJSONDocument(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null
+): ExportJson {
+  const canUseCustomServes = customServesUsable(label, basis, customServes);
+  const nutrients: ExportJsonNutrient[] = [];
+
+  for (const def of NUTRIENTS) {
+    const n = label.nutrients[def.key];
+    if (!n) continue;
+
+    const out = basisValue(n, label, basis, customGrams, customServes, canUseCustomServes);
+    if (!out) continue;
+
+    const percent = percentOf(def.key, out.value, dailyValues);
+
+    nutrients.push({
+      key: def.key,
+      label: def.label,
+      value: cleanNumber(out.value),
+      unit: n.unit,
+      display: roundNutrient(def.key, out.value, rounding),
+      confidence: n.confidence,
+      source: out.source,
+      ...(percent != null ? { percentDailyValue: cleanNumber(percent) } : {}),
+    });
+  }
+
+  const hasServes = Number.isFinite(customServes);
+  const hasAmount = Number.isFinite(customGrams);
+
+  return {
+    $schema: EXPORT_SCHEMA_ID,
+    version: EXPORT_JSON_VERSION,
+    ...(label.name ? { name: label.name } : {}),
+    mode,
+    basis,
+    servingSize: label.servingSize,
+    ...(label.servingsPerPack ? { servingsPerPack: label.servingsPerPack } : {}),
+    ...(label.netQuantity ? { netQuantity: label.netQuantity } : {}),
+    ...(label.density ? { density: label.density } : {}),
+    ...(hasServes || hasAmount
+      ? {
+          consumption: {
+            ...(hasServes ? { serves: customServes } : {}),
+            ...(hasAmount ? { amount: customGrams, amountUnit: label.servingSize.unit } : {}),
+          },
+        }
+      : {}),
+    rounding,
+    dailyValues,
+    nutrients,
+  };
+}
+
+export function buildJSON(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null
+) {
+  const doc = buildJSONDocument(
+    label,
+    basis,
+    customGrams,
+    customServes,
+    mode,
+    rounding,
+    dailyValues
+  );
+  return JSON.stringify(doc, null, 2);
 }
 
+// ---------- schema.org JSON-LD (product pages) ----------
+
+// NutritionInformation property per nutrient; the rest have no schema.org term
+const SCHEMA_ORG_PROPS: Partial<Record<NutrientKey, string>> = {
+  energy_kcal: "calories",
+  protein_g: "proteinContent",
+  fat_g: "fatContent",
+  saturated_fat_g: "saturatedFatContent",
+  trans_fat_g: "transFatContent",
+  cholesterol_mg: "cholesterolContent",
+  carbs_g: "carbohydrateContent",
+  sugars_g: "sugarContent",
+  fibre_g: "fiberContent",
+  sodium_mg: "sodiumContent",
+};
+
+const KJ_PER_KCAL = 4.184;
+
+// What the values are "per", in schema.org's free-text servingSize
+// Follows basisValue's branches, so the amount always matches the values
+function schemaServingSize(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number
+) {
+  const { value, unit, household } = label.servingSize;
+  const unitText = unit === "ml" ? "mL" : "g";
+
+  if (basis === "per_100g") return "100 g";
+  if (basis === "per_100ml") return "100 mL";
+  if (basis === "per_unit" || basis === "per_pack") return scaledServingText(label, basis);
+  if (customServesUsable(label, basis, customServes)) {
+    const serves = customServes!;
+    const noun = serves === 1 ? "serving" : "servings";
+    return `${formatAmount(serves)} ${noun} (${formatAmount(value * serves)} ${unitText})`;
+  }
+  if (basis === "custom" && Number.isFinite(customGrams) && value > 0) {
+    return `${customGrams} ${unitText}`;
+  }
+  return household ? `${formatHousehold(household)} (${value} ${unitText})` : `${value} ${unitText}`;
+}
+
+/**
+ * schema.org Product + NutritionInformation, for a page's
+ * <script type="application/ld+json">. Same values getReviewRows shows.
+ */
+export function buildJSONLDDocument(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default"
+) {
+  const doc = buildJSONDocument(label, basis, customGrams, customServes, mode, rounding);
+  const nutrition: Record<string, string> = {
+    "@type": "NutritionInformation",
+    servingSize: schemaServingSize(label, basis, customGrams, customServes),
+  };
+
+  for (const n of doc.nutrients) {
+    const prop = SCHEMA_ORG_PROPS[n.key];
+    if (!prop) continue;
+    nutrition[prop] = n.key === "energy_kcal" ? `${n.display} calories` : `${n.display} ${n.unit}`;
+  }
+
+  // Labels that only print kJ still get calories
+  const kj = doc.nutrients.find((n) => n.key === "energy_kj");
+  if (!nutrition.calories && kj) {
+    nutrition.calories = `${roundNutrient("energy_kcal", kj.value / KJ_PER_KCAL, rounding)} calories`;
+  }
+
+  return {
+    "@context": "https://schema.org",
+    // Product has no `nutrition` property; MenuItem does, so type as both
+    "@type": ["Product", "MenuItem"],
+    ...(label.name ? { name: label.name } : {}),
+    nutrition,
+  };
+}
+
+export function buildJSONLD(
+  label: LabelData,
+  basis: Basis,
+  customGrams?: number,
+  customServes?: number,
+  mode: "label" | "consumption" = "label",
+  rounding: RoundingProfileId = "default"
+) {
+  const doc = buildJSONLDDocument(label, basis, customGrams, customServes, mode, rounding);
+  return JSON.stringify(doc, null, 2);
+}
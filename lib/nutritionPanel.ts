@@ -0,0 +1,357 @@
+// lib/nutritionPanel.ts
+// Printable nutrition panels: US "Nutrition Facts" (FDA layout) and the
+// AU/NZ two-column Nutrition Information Panel (FSANZ layout).
+// Both are built as one layout model (rows of cells + rules) from the same
+// rows getReviewRows gives Review/Export, then drawn as HTML or SVG.
+// "Compliant-looking", not certified: check type sizes before print runs.
+
+import type { LabelData, NutrientKey } from "./mockLabel";
+import {
+  buildJSONDocument,
+  formatHousehold,
+  getReviewRows,
+  per100Basis,
+  servingsInPack,
+} from "./nutritionFormat";
+
+export type PanelStyle = "fda" | "fsanz";
+
+type PanelLine = {
+  cells: string[]; // one per column; "" leaves a cell empty
+  bold?: boolean;
+  indent?: number; // levels, 1 = sub-nutrient
+  size?: number; // font size in px
+  rule?: number; // thickness of the rule drawn above, px
+};
+
+type PanelLayout = {
+  title: string;
+  width: number; // px
+  columns: number[]; // relative widths
+  align: ("left" | "right")[];
+  lines: PanelLine[];
+};
+
+/* -----------------------------
+   Shared helpers
+------------------------------ */
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatCount(n: number) {
+  return String(Math.round(n * 10) / 10);
+}
+
+function servingText(label: LabelData) {
+  const { value, unit, household } = label.servingSize;
+  const metric = `${value}${unit === "ml" ? "mL" : "g"}`;
+  return household ? `${formatHousehold(household)} (${metric})` : metric;
+}
+
+/* -----------------------------
+   US Nutrition Facts
+------------------------------ */
+
+// FDA names; keys not listed keep the registry label
+const FDA_NAMES: Partial<Record<NutrientKey, string>> = {
+  fat_g: "Total Fat",
+  saturated_fat_g: "Saturated Fat",
+  trans_fat_g: "Trans Fat",
+  carbs_g: "Total Carbohydrate",
+  fibre_g: "Dietary Fiber",
+  sugars_g: "Total Sugars",
+  polyols_g: "Sugar Alcohol",
+};
+
+// 21 CFR 101.9(d) order; anything else follows in registry order
+const FDA_ORDER: NutrientKey[] = [
+  "fat_g",
+  "saturated_fat_g",
+  "trans_fat_g",
+  "cholesterol_mg",
+  "sodium_mg",
+  "carbs_g",
+  "fibre_g",
+  "sugars_g",
+  "added_sugars_g",
+  "polyols_g",
+  "protein_g",
+];
+
+const FDA_BOLD: NutrientKey[] = ["fat_g", "cholesterol_mg", "sodium_mg", "carbs_g", "protein_g"];
+const FDA_MICROS: NutrientKey[] = ["vitamin_d_mcg", "calcium_mg", "iron_mg", "potassium_mg"];
+
+function fdaLayout(label: LabelData): PanelLayout {
+  const rows = getReviewRows(label, "per_serve", undefined, undefined, "fda", "fda");
+  const doc = buildJSONDocument(label, "per_serve", undefined, undefined, "label", "fda");
+
+  // The big Calories line needs kcal on its own (energy rows pair kJ + kcal)
+  const kcal = doc.nutrients.find((n) => n.key === "energy_kcal")?.display;
+
+  const lines: PanelLine[] = [];
+  const serves = servingsInPack(label);
+  if (serves != null) lines.push({ cells: [`${formatCount(serves)} servings per container`, ""] });
+  lines.push({ cells: ["Serving size", servingText(label)], bold: true, size: 16 });
+
+  lines.push({ cells: ["Amount per serving", ""], bold: true, size: 11, rule: 8 });
+  lines.push({ cells: ["Calories", kcal ?? "—"], bold: true, size: 26 });
+  lines.push({ cells: ["", "% Daily Value*"], bold: true, size: 11, rule: 4 });
+
+  const nutrientRows = rows.filter((r) => r.id !== "energy");
+  const rank = (r: { id: string }) => {
+    const i = FDA_ORDER.indexOf(r.id as NutrientKey);
+    return i < 0 ? FDA_ORDER.length : i;
+  };
+  const macros = nutrientRows
+    .filter((r) => !FDA_MICROS.includes(r.id as NutrientKey))
+    .sort((a, b) => rank(a) - rank(b));
+  const micros = nutrientRows.filter((r) => FDA_MICROS.includes(r.id as NutrientKey));
+
+  for (const r of macros) {
+    const key = r.id as NutrientKey;
+    const name =
+      key === "added_sugars_g"
+        ? `Includes ${r.valueText.replace(" ", "")} Added Sugars`
+        : `${FDA_NAMES[key] ?? r.label} ${r.valueText.replace(" ", "")}`;
+
+    lines.push({
+      cells: [name, r.percentText ?? ""],
+      bold: FDA_BOLD.includes(key),
+      indent: key === "added_sugars_g" ? 2 : r.depth,
+      rule: 1,
+    });
+  }
+
+  micros.forEach((r, i) => {
+    lines.push({
+      cells: [`${r.label} ${r.valueText.replace(" ", "")}`, r.percentText ?? ""],
+      rule: i === 0 ? 8 : 1,
+    });
+  });
+
+  lines.push({
+    cells: [
+      "* The % Daily Value tells you how much a nutrient in a serving of food contributes to a daily diet. 2,000 calories a day is used for general nutrition advice.",
+      "",
+    ],
+    size: 9,
+    rule: 4,
+  });
+
+  return {
+    title: "Nutrition Facts",
+    width: 320,
+    columns: [3, 1],
+    align: ["left", "right"],
+    lines,
+  };
+}
+
+/* -----------------------------
+   AU/NZ Nutrition Information Panel
+------------------------------ */
+
+function fsanzLayout(label: LabelData): PanelLayout {
+  const per100 = per100Basis(label);
+  const perServe = getReviewRows(label, "per_serve", undefined, undefined, "fsanz");
+  const per100Rows = getReviewRows(label, per100, undefined, undefined, "fsanz");
+  const per100Text = new Map(per100Rows.map((r) => [r.id, r.valueText]));
+
+  const lines: PanelLine[] = [];
+  const serves = servingsInPack(label);
+  lines.push({
+    cells: [`Servings per package: ${serves != null ? formatCount(serves) : "—"}`, "", ""],
+  });
+  lines.push({ cells: [`Serving size: ${servingText(label)}`, "", ""] });
+
+  lines.push({ cells: ["", "Avg Quantity", "Avg Quantity"], bold: true, size: 10, rule: 2 });
+  lines.push({
+    cells: ["", "per Serving", `per 100${per100 === "per_100ml" ? "mL" : "g"}`],
+    bold: true,
+    size: 10,
+  });
+
+  for (const r of perServe) {
+    lines.push({
+      cells: [r.label, r.valueText, per100Text.get(r.id) ?? "—"],
+      indent: r.depth,
+      rule: r.depth === 0 ? 1 : 0,
+    });
+  }
+
+  return {
+    title: "NUTRITION INFORMATION",
+    width: 380, // room for "1250 kJ (300 kcal)" in both columns
+    columns: [1.4, 1.5, 1.5],
+    align: ["left", "right", "right"],
+    lines,
+  };
+}
+
+function layoutFor(label: LabelData, style: PanelStyle) {
+  return style === "fda" ? fdaLayout(label) : fsanzLayout(label);
+}
+
+/* -----------------------------
+   HTML
+------------------------------ */
+
+/** Standalone HTML page with the panel; prints as-is. */
+export function renderPanelHTML(label: LabelData, style: PanelStyle) {
+  const layout = layoutFor(label, style);
+  const total = layout.columns.reduce((a, b) => a + b, 0);
+
+  const body = layout.lines
+    .map((line) => {
+      const style = [
+        line.bold ? "font-weight:700" : "",
+        line.size ? `font-size:${line.size}px` : "",
+        line.rule ? `border-top:${line.rule}px solid #000` : "",
+      ]
+        .filter(Boolean)
+        .join(";");
+
+      const cells = line.cells
+        .map((c, i) => {
+          const pad = i === 0 && line.indent ? `padding-left:${line.indent * 12}px;` : "";
+          const width = `width:${((layout.columns[i] / total) * 100).toFixed(1)}%;`;
+          return `<td style="${pad}${width}text-align:${layout.align[i]}">${escapeXml(c)}</td>`;
+        })
+        .join("");
+
+      return `<tr style="${style}">${cells}</tr>`;
+    })
+    .join("\n");
+
+  const name = label.name ? `<p class="name">${escapeXml(label.name)}</p>` : "";
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(layout.title)}${label.name ? ` – ${escapeXml(label.name)}` : ""}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; margin: 24px; }
+  .panel { width: ${layout.width}px; border: 1px solid #000; padding: 6px; }
+  .panel h1 { margin: 0 0 4px; font-size: ${style === "fda" ? 32 : 16}px; font-weight: 900; }
+  .panel table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  .panel td { padding: 2px 0; vertical-align: top; }
+  .name { font-size: 12px; color: #444; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+${name}
+<div class="panel">
+<h1>${escapeXml(layout.title)}</h1>
+<table>
+${body}
+</table>
+</div>
+</body>
+</html>
+`;
+}
+
+/* -----------------------------
+   SVG
+------------------------------ */
+
+function px(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+// Rough wrap for long footnotes; SVG text doesn't wrap by itself
+function wrapText(text: string, maxChars: number) {
+  const words = text.split(" ");
+  const out: string[] = [];
+  let line = "";
+  for (const w of words) {
+    if (line && (line + " " + w).length > maxChars) {
+      out.push(line);
+      line = w;
+    } else {
+      line = line ? `${line} ${w}` : w;
+    }
+  }
+  if (line) out.push(line);
+  return out;
+}
+
+/** Standalone SVG of the panel, for design tools. */
+export function renderPanelSVG(label: LabelData, style: PanelStyle) {
+  const layout = layoutFor(label, style);
+  const pad = 8;
+  const width = layout.width;
+  const inner = width - pad * 2;
+  const total = layout.columns.reduce((a, b) => a + b, 0);
+
+  // Column x positions (left edge, right edge)
+  const edges: [number, number][] = [];
+  let x = pad;
+  for (const w of layout.columns) {
+    const colWidth = (w / total) * inner;
+    edges.push([x, x + colWidth]);
+    x += colWidth;
+  }
+
+  const parts: string[] = [];
+  const titleSize = style === "fda" ? 32 : 16;
+  let y = pad + titleSize;
+  parts.push(
+    `<text x="${pad}" y="${y}" font-size="${titleSize}" font-weight="900">${escapeXml(layout.title)}</text>`
+  );
+  y += 6;
+
+  for (const line of layout.lines) {
+    const size = line.size ?? 12;
+
+    if (line.rule) {
+      y += line.rule / 2 + 1;
+      parts.push(
+        `<line x1="${pad}" y1="${y}" x2="${width - pad}" y2="${y}" stroke="#000" stroke-width="${line.rule}"/>`
+      );
+      y += line.rule / 2;
+    }
+
+    // Single long cell (footnotes): wrap across the full width
+    const wrapped =
+      line.cells.length > 0 && line.cells.slice(1).every((c) => !c) && line.cells[0].length > 60
+        ? wrapText(line.cells[0], Math.floor(inner / (size * 0.5)))
+        : null;
+
+    if (wrapped) {
+      for (const w of wrapped) {
+        y += size + 2;
+        parts.push(`<text x="${pad}" y="${y}" font-size="${size}">${escapeXml(w)}</text>`);
+      }
+      y += 3;
+      continue;
+    }
+
+    y += size + 3;
+    const weight = line.bold ? ` font-weight="700"` : "";
+    line.cells.forEach((c, i) => {
+      if (!c) return;
+      const [left, right] = edges[i];
+      const indent = i === 0 && line.indent ? line.indent * 12 : 0;
+      const anchor = layout.align[i] === "right" ? `x="${px(right)}" text-anchor="end"` : `x="${px(left + indent)}"`;
+      parts.push(`<text ${anchor} y="${y}" font-size="${size}"${weight}>${escapeXml(c)}</text>`);
+    });
+    y += 3;
+  }
+
+  const height = Math.ceil(y + pad);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">
+<rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" fill="#fff" stroke="#000"/>
+${parts.join("\n")}
+</svg>
+`;
+}
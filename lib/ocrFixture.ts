@@ -0,0 +1,74 @@
+// lib/ocrFixture.ts
+// Golden OCR fixture: one recorded Vision response + the LabelData a human
+// confirmed for it. scripts/ocr-eval.ts replays these offline.
+
+import type { LabelData } from "./mockLabel";
+import type { VisionResponse } from "./ocrPost";
+
+export const OCR_FIXTURE_VERSION = 1;
+
+export type OcrFixture = {
+  version: typeof OCR_FIXTURE_VERSION;
+  name: string;
+  imageSha256?: string;
+  notes?: string;
+  vision: VisionResponse; // Vision `responses[0]`, unmodified
+  expected: LabelData;
+};
+
+/** What /api/ocr (OCR_RECORD=1) and scripts/ocr-run.ts --record capture. */
+export type OcrRecording = {
+  imageSha256: string;
+  vision: VisionResponse;
+};
+
+function isObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null;
+}
+
+export function isOcrFixture(x: unknown): x is OcrFixture {
+  return (
+    isObject(x) &&
+    x.version === OCR_FIXTURE_VERSION &&
+    typeof x.name === "string" &&
+    isObject(x.vision) &&
+    isObject(x.expected) &&
+    x.expected.nutrients != null
+  );
+}
+
+/** Fixture names double as file names: keep them filesystem-safe. */
+export function fixtureName(raw: string): string {
+  return (
+    raw
+      .toLowerCase()
+      .replace(/\.[a-z0-9]+$/, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "fixture"
+  );
+}
+
+export function buildOcrFixture(
+  name: string,
+  recording: OcrRecording,
+  expected: LabelData,
+  notes?: string
+): OcrFixture {
+  return {
+    version: OCR_FIXTURE_VERSION,
+    name: fixtureName(name),
+    imageSha256: recording.imageSha256,
+    ...(notes ? { notes } : {}),
+    vision: recording.vision,
+    // LabelData only; stored-only fields (rawLines, debug, image) stay out
+    expected: {
+      basis: expected.basis,
+      servingSize: expected.servingSize,
+      ...(expected.servingsPerPack ? { servingsPerPack: expected.servingsPerPack } : {}),
+      ...(expected.netQuantity ? { netQuantity: expected.netQuantity } : {}),
+      ...(expected.density ? { density: expected.density } : {}),
+      ...(expected.name ? { name: expected.name } : {}),
+      nutrients: expected.nutrients,
+    },
+  };
+}
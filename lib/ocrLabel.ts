@@ -0,0 +1,84 @@
+// lib/ocrLabel.ts
+// OcrPostResult (lib/ocrPost) -> LabelData for Review/Export.
+// Plausibility checks live here, not in the parser, so scripts can see raw values.
+
+import type { Confidence, LabelData, NutrientSource } from "./mockLabel";
+import { NUTRIENTS } from "./nutrients";
+import { OCR_RESULT_VERSION, type OcrPostResult } from "./ocrPost";
+
+const MIN_SERVING_SIZE_G = 5;
+
+export function isOcrPostResult(x: unknown): x is OcrPostResult {
+  if (typeof x !== "object" || x === null) return false;
+  const r = x as Partial<OcrPostResult>;
+  return r.version === OCR_RESULT_VERSION && Array.isArray(r.lines);
+}
+
+export function ocrResultToLabelData(result: OcrPostResult): LabelData {
+  const serving = result.serving;
+  const meta = serving?.servingSize;
+
+  // Missing/implausible serving size stays a sentinel (UI hides <5g)
+  const servingSize: LabelData["servingSize"] =
+    meta && meta.unit && meta.value >= MIN_SERVING_SIZE_G
+      ? { value: meta.value, unit: meta.unit }
+      : { value: 1, unit: "g" };
+  if (serving?.household) servingSize.household = serving.household;
+  const hasServing = servingSize.value >= MIN_SERVING_SIZE_G;
+
+  // per100 is per 100 of the serving unit; a headed per-100 g column on a
+  // per-mL label (or vice versa) can't be used without a density
+  const col100 = servingSize.unit === "ml" ? "per_100ml" : "per_100g";
+  const headed = (result.columns ?? []).some(
+    (c) => c.basis === "per_100g" || c.basis === "per_100ml"
+  );
+
+  const nutrients: LabelData["nutrients"] = {};
+
+  for (const def of NUTRIENTS) {
+    const parsed = result.nutrients?.[def.key];
+    if (!parsed) continue;
+
+    const printed100 = parsed.values?.[col100] ?? (headed ? null : parsed.per100);
+    const per100 = printed100 != null && Number.isFinite(printed100) ? printed100 : null;
+    let value = parsed.perServe;
+    let source: NutrientSource = "printed";
+
+    // Only the per-100 column printed: derive the serve from it
+    if ((value == null || !Number.isFinite(value)) && per100 != null && hasServing) {
+      value = (per100 * servingSize.value) / 100;
+      source = "calculated";
+    }
+    if (value == null || !Number.isFinite(value)) continue;
+
+    const max = def.maxPerServe;
+    if (max != null && value > max) continue;
+
+    let confidence: Confidence = parsed.confidence;
+
+    // Both columns printed: they should agree through the serving size
+    if (source === "printed" && per100 != null && per100 > 0 && hasServing) {
+      const expected100 = (value / servingSize.value) * 100;
+      const relDiff = Math.abs(expected100 - per100) / Math.max(1, per100);
+
+      if (relDiff > 0.8) continue;
+      if (relDiff > 0.3) confidence = "Low";
+    }
+
+    nutrients[def.key] = {
+      value,
+      unit: def.unit,
+      confidence,
+      ...(source === "calculated" ? { source } : {}),
+      ...(per100 != null ? { per100: { value: per100, source: "printed" as const } } : {}),
+    };
+  }
+
+  return {
+    basis: "per_serve",
+    servingSize,
+    ...(serving?.servingsPerPack ? { servingsPerPack: serving.servingsPerPack } : {}),
+    ...(serving?.netQuantity ? { netQuantity: serving.netQuantity } : {}),
+    nutrients,
+  };
+}
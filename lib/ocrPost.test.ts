@@ -0,0 +1,23 @@
+// lib/ocrPost.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { ocrPost } from "./ocrPost";
+
+function visionText(lines: string[]) {
+  return { fullTextAnnotation: { text: lines.join("\n") } };
+}
+
+test("US added sugars: the name follows the value", () => {
+  const result = ocrPost(
+    visionText([
+      "Nutrition Facts",
+      "Serving Size 1 cup (114g)",
+      "Total Sugars 12g",
+      "Includes 10g Added Sugars 20%",
+      "Protein 3g",
+    ])
+  );
+
+  assert.equal(result.nutrients.added_sugars_g?.perServe, 10);
+  assert.equal(result.nutrients.sugars_g?.perServe, 12);
+});
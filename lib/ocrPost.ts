@@ -1,23 +1,86 @@
 // lib/ocrPost.ts
-// Step 3/4/5: OCR post-processing (input-assist only).
-// Scope: NO nutrient mapping, NO per-serve/per-100g logic, NO UI wiring.
+// The one OCR post-processor: /api/ocr, the Expo app and scripts/ all import it.
+// Vision response -> tokens -> lines -> value/unit candidates -> labelled rows
+// -> NutrientKey mapping (+ serving meta), returned as OcrPostResult.
+// Bump OCR_RESULT_VERSION whenever that shape changes.
 //
 // MVP POLICY: ship WITHOUT Daily Values.
 // - Skip DV boilerplate/table lines.
-// - Drop % candidates entirely.
+// - Drop % candidates entirely; the opt-in %DV column is calculated
+//   from stored values (lib/dailyValues), never read off the label.
+
+import type { Confidence, HouseholdMeasure, NutrientKey } from "./mockLabel";
+import {
+  energyKeyForUnit,
+  getNutrientDef,
+  isEnergyKey,
+  matchNutrientKey,
+} from "./nutrients";
+import type { OcrRecording } from "./ocrFixture";
+
+export const OCR_RESULT_VERSION = 3;
 
 type Vertex = { x?: number; y?: number };
 
+/** The parts of a Vision `responses[0]` entry this file reads; all optional. */
+export type VisionResponse = {
+  fullTextAnnotation?: {
+    text?: string;
+    pages?: {
+      width?: number;
+      height?: number;
+      blocks?: {
+        paragraphs?: {
+          words?: {
+            symbols?: { text?: string }[];
+            boundingBox?: { vertices?: Vertex[] };
+            confidence?: number;
+          }[];
+        }[];
+      }[];
+    }[];
+  };
+  textAnnotations?: {
+    description?: string;
+    boundingPoly?: { vertices?: Vertex[] };
+  }[];
+};
+
 type OcrItem = {
   text: string;
   boundingBox: Vertex[];
 };
 
-type OcrResultLike = {
+export type OcrResultLike = {
   fullText: string;
   items: OcrItem[];
 };
 
+/** Page-relative box, 0..1 on both axes. */
+export type BBox = { x0: number; y0: number; x1: number; y1: number };
+
+export type Token = {
+  text: string;
+  bbox: BBox;
+  confidence: number | null; // word confidence, when the engine reports one
+};
+
+export type ColumnBasis =
+  | "per_serve"
+  | "per_100g"
+  | "per_100ml"
+  | "per_container"
+  | "as_prepared"
+  | "daily_intake";
+
+/** One value column of the nutrition table, found from its heading. */
+export type TableColumn = {
+  basis: ColumnBasis;
+  header: string; // heading text as printed, e.g. "per 100g"
+  x0?: number; // heading extent (page-relative); absent for text-only input
+  x1?: number;
+};
+
 export type ValueUnitCandidate = {
   raw: string;
   value: number;
@@ -25,6 +88,9 @@ export type ValueUnitCandidate = {
   line: string;
   lineIndex: number;
   tokenIndex?: number;
+  x?: number; // page-relative centre, when token geometry is known
+  column?: ColumnBasis; // set from the table headings (see detectColumns)
+  ocrConfidence?: number | null;
 };
 
 export type LabeledValueUnitCandidate = ValueUnitCandidate & {
@@ -37,19 +103,48 @@ export type LabelRow = {
   alternates: LabeledValueUnitCandidate[];
 };
 
-type Token = {
-  text: string;
-  xMin: number;
-  xMax: number;
-  yMin: number;
-  yMax: number;
-  yMid: number;
-  h: number;
-};
-
 export type ServingMeta = {
   servingSize: { value: number; unit: "g" | "ml" | "" } | null;
+  household: HouseholdMeasure | null; // "1 cup", "2 slices"
   servingsPerPack: number | null;
+  netQuantity: { value: number; unit: "g" | "ml" } | null;
+};
+
+export type ParsedNutrient = {
+  perServe: number | null;
+  per100: number | null; // per 100 g / 100 mL, as printed
+  values: Partial<Record<ColumnBasis, number>>; // every column the row filled
+  unit: string;
+  confidence: Confidence;
+};
+
+export type DroppedLine = {
+  line: string;
+  reason: "DAILY_VALUE" | "HEADER";
+};
+
+export type OcrPostDebug = {
+  tokens: Token[];
+  droppedLines: DroppedLine[];
+  candidates: LabeledValueUnitCandidate[];
+};
+
+/** Engine-neutral OCR output (see lib/ocrProvider.ts). */
+export type OcrPage = {
+  fullText: string;
+  tokens: Token[];
+  vision?: VisionResponse; // raw Vision `responses[0]`, when the engine was Vision
+};
+
+export type OcrPostResult = {
+  version: typeof OCR_RESULT_VERSION;
+  lines: string[];
+  rows: LabelRow[];
+  columns: TableColumn[];
+  nutrients: Partial<Record<NutrientKey, ParsedNutrient>>;
+  serving: ServingMeta;
+  debug?: OcrPostDebug;
+  recording?: OcrRecording; // added by /api/ocr in record mode, never by ocrPost()
 };
 
 /* -----------------------------
@@ -72,62 +167,152 @@ function normalizeUnit(u: string): string {
   if (!s) return "";
   if (/^kj$/i.test(s)) return "kJ";
   if (/^kcal$/i.test(s)) return "kcal";
-  if (s === "µg") return "mcg";
+  if (s === "µg" || /^ug$/i.test(s)) return "mcg";
   return s.toLowerCase();
 }
 
+function median(nums: number[]): number {
+  if (!nums.length) return 0;
+  const a = [...nums].sort((p, q) => p - q);
+  const m = Math.floor(a.length / 2);
+  return a.length % 2 ? a[m] : (a[m - 1] + a[m]) / 2;
+}
+
 /* -----------------------------
-   Tokenisation + line building
+   Tokenisation
 ------------------------------ */
 
-function tokenFromItem(it: OcrItem): Token | null {
-  const text = (it.text ?? "").trim();
-  if (!text) return null;
+function bboxFromVertices(
+  vertices: Vertex[] | undefined,
+  width: number,
+  height: number
+): BBox | null {
+  if (!Array.isArray(vertices) || !vertices.length || !width || !height) {
+    return null;
+  }
+
+  const xs = vertices.map((v) => finite(v?.x, 0));
+  const ys = vertices.map((v) => finite(v?.y, 0));
+
+  return {
+    x0: Math.min(...xs) / width,
+    y0: Math.min(...ys) / height,
+    x1: Math.max(...xs) / width,
+    y1: Math.max(...ys) / height,
+  };
+}
 
-  const verts = Array.isArray(it.boundingBox) ? it.boundingBox : [];
-  if (!verts.length) return null;
+/**
+ * Pixel-space words -> page-relative tokens. Without a known page size the
+ * furthest box edge stands in for it (textAnnotations, Tesseract).
+ */
+export function normalizePixelTokens(
+  tokens: Token[],
+  width?: number,
+  height?: number
+): Token[] {
+  const w = width || Math.max(0, ...tokens.map((t) => t.bbox.x1));
+  const h = height || Math.max(0, ...tokens.map((t) => t.bbox.y1));
+  if (!w || !h) return [];
+
+  return tokens
+    .filter((t) => t.text.trim())
+    .map((t) => ({
+      text: t.text.trim(),
+      bbox: { x0: t.bbox.x0 / w, y0: t.bbox.y0 / h, x1: t.bbox.x1 / w, y1: t.bbox.y1 / h },
+      confidence: t.confidence,
+    }));
+}
 
-  const xs = verts.map((v) => finite(v.x, 0));
-  const ys = verts.map((v) => finite(v.y, 0));
+/** Pixel word boxes (textAnnotations / script items). */
+function tokensFromItems(items: OcrItem[]): Token[] {
+  const tokens: Token[] = [];
+  for (const it of items) {
+    const bbox = bboxFromVertices(it.boundingBox, 1, 1);
+    if (bbox) tokens.push({ text: it.text ?? "", bbox, confidence: null });
+  }
+  return normalizePixelTokens(tokens);
+}
 
-  const xMin = Math.min(...xs);
-  const xMax = Math.max(...xs);
-  const yMin = Math.min(...ys);
-  const yMax = Math.max(...ys);
+/**
+ * Words from one Vision `responses[0]` entry. fullTextAnnotation.pages has
+ * page size and confidence, so prefer it; fall back to textAnnotations[1..].
+ */
+export function tokensFromVision(r0: VisionResponse | undefined): Token[] {
+  const tokens: Token[] = [];
+
+  for (const page of r0?.fullTextAnnotation?.pages || []) {
+    const width = finite(page?.width);
+    const height = finite(page?.height);
+
+    for (const block of page?.blocks || []) {
+      for (const para of block?.paragraphs || []) {
+        for (const word of para?.words || []) {
+          const text = (word?.symbols || [])
+            .map((s) => s?.text || "")
+            .join("");
+          if (!text) continue;
+
+          const bbox = bboxFromVertices(word?.boundingBox?.vertices, width, height);
+          if (!bbox) continue;
+
+          const confidence = Number(word?.confidence);
+          tokens.push({
+            text,
+            bbox,
+            confidence: Number.isFinite(confidence) ? confidence : null,
+          });
+        }
+      }
+    }
+  }
 
-  const h = Math.max(1, yMax - yMin);
-  const yMid = (yMin + yMax) / 2;
+  if (tokens.length) return tokens;
 
-  return { text, xMin, xMax, yMin, yMax, yMid, h };
+  return tokensFromItems(
+    (r0?.textAnnotations || []).slice(1).map((a) => ({
+      text: a?.description ?? "",
+      boundingBox: a?.boundingPoly?.vertices || [],
+    }))
+  );
 }
 
-function median(nums: number[]): number {
-  if (!nums.length) return 0;
-  const a = [...nums].sort((p, q) => p - q);
-  const m = Math.floor(a.length / 2);
-  return a.length % 2 ? a[m] : (a[m - 1] + a[m]) / 2;
+/* -----------------------------
+   Line building
+------------------------------ */
+
+type SourceLine = {
+  text: string;
+  tokens: Token[]; // empty when only plain text is known
+};
+
+function xMid(b: BBox) {
+  return (b.x0 + b.x1) / 2;
 }
 
-type BuiltLine = { text: string; tokens: Token[] };
+function yMid(b: BBox) {
+  return (b.y0 + b.y1) / 2;
+}
 
-function buildLinesFromTokens(tokens: Token[]): BuiltLine[] {
+function buildLinesFromTokens(tokens: Token[]): SourceLine[] {
   if (!tokens.length) return [];
 
-  const medH = median(tokens.map((t) => t.h).filter((h) => h > 0)) || 10;
-  const yTol = Math.max(6, medH * 0.6);
+  const medH = median(tokens.map((t) => t.bbox.y1 - t.bbox.y0).filter((h) => h > 0));
+  const yTol = Math.max(0.004, medH * 0.6);
 
   const sorted = [...tokens].sort(
-    (a, b) => a.yMid - b.yMid || a.xMin - b.xMin
+    (a, b) => yMid(a.bbox) - yMid(b.bbox) || a.bbox.x0 - b.bbox.x0
   );
 
   const lines: { yRef: number; tokens: Token[] }[] = [];
 
   for (const t of sorted) {
+    const y = yMid(t.bbox);
     let best = -1;
     let bestDy = Infinity;
 
     for (let i = 0; i < lines.length; i++) {
-      const dy = Math.abs(t.yMid - lines[i].yRef);
+      const dy = Math.abs(y - lines[i].yRef);
       if (dy < bestDy) {
         bestDy = dy;
         best = i;
@@ -138,25 +323,31 @@ function buildLinesFromTokens(tokens: Token[]): BuiltLine[] {
       const line = lines[best];
       line.tokens.push(t);
       line.yRef =
-        (line.yRef * (line.tokens.length - 1) + t.yMid) /
-        line.tokens.length;
+        (line.yRef * (line.tokens.length - 1) + y) / line.tokens.length;
     } else {
-      lines.push({ yRef: t.yMid, tokens: [t] });
+      lines.push({ yRef: y, tokens: [t] });
     }
   }
 
   return lines
     .sort((a, b) => a.yRef - b.yRef)
     .map((l) => {
-      const tokens = [...l.tokens].sort((a, b) => a.xMin - b.xMin);
+      const lineTokens = [...l.tokens].sort((a, b) => a.bbox.x0 - b.bbox.x0);
       return {
-        tokens,
-        text: tokens.map((t) => t.text).join(" ").replace(/\s+/g, " ").trim(),
+        tokens: lineTokens,
+        text: lineTokens.map((t) => t.text).join(" ").replace(/\s+/g, " ").trim(),
       };
     })
     .filter((l) => l.text);
 }
 
+function linesFromText(lines: string[]): SourceLine[] {
+  return lines
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((text) => ({ text, tokens: [] }));
+}
+
 /* -----------------------------
    Noise detection
 ------------------------------ */
@@ -182,6 +373,217 @@ function isHeaderNoise(line: string): boolean {
   );
 }
 
+/* -----------------------------
+   Table columns (from headings)
+------------------------------ */
+
+const COLUMN_HEADERS: { basis: ColumnBasis; re: RegExp }[] = [
+  { basis: "per_100ml", re: /\bper\s*100\s*ml\b/gi },
+  { basis: "per_100g", re: /\bper\s*100\s*g\b/gi },
+  { basis: "per_serve", re: /\b(?:amount\s+)?per\s*serv(?:e|ing)s?\b/gi },
+  { basis: "per_container", re: /\bper\s*(?:container|pack(?:age)?)\b/gi },
+  { basis: "as_prepared", re: /\bas\s*prepared\b/gi },
+  { basis: "daily_intake", re: /%\s*(?:DI|DV|daily\s+(?:intake|value))\b/gi },
+];
+
+/**
+ * Column headings ("Per serve", "Per 100 g", "Per 100 mL", "Per container",
+ * "As prepared", "%DI"), left to right. With token geometry each column
+ * carries the x-extent of its heading; text-only input keeps print order.
+ */
+function detectColumns(lines: SourceLine[]): TableColumn[] {
+  const found: (TableColumn & { order: number })[] = [];
+
+  lines.forEach((src, lineIndex) => {
+    // Offsets into the token join, so a match maps back to its tokens
+    const words = src.tokens.length ? src.tokens.map((t) => t.text) : [src.text];
+    const text = words.join(" ");
+    const starts: number[] = [];
+    words.reduce((at, w) => (starts.push(at), at + w.length + 1), 0);
+
+    for (const { basis, re } of COLUMN_HEADERS) {
+      re.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = re.exec(text)) !== null) {
+        // "Servings per package: 8" is serving meta, not a heading, but
+        // "per Serving per 100g" is two headings
+        const before = text.slice(0, m.index);
+        if (/servings?\s*$/i.test(before) && !/per\s*servings?\s*$/i.test(before)) continue;
+        if (found.some((c) => c.basis === basis)) continue;
+
+        const col: TableColumn & { order: number } = {
+          basis,
+          header: m[0],
+          order: lineIndex * 10000 + m.index,
+        };
+
+        if (src.tokens.length) {
+          const end = m.index + m[0].length;
+          const hit = src.tokens.filter(
+            (_, i) => starts[i] < end && starts[i] + words[i].length > m!.index
+          );
+          col.x0 = Math.min(...hit.map((t) => t.bbox.x0));
+          col.x1 = Math.max(...hit.map((t) => t.bbox.x1));
+          col.order = (col.x0 + col.x1) / 2;
+        }
+
+        found.push(col);
+      }
+    }
+  });
+
+  return found
+    .sort((a, b) => a.order - b.order)
+    .map(({ order, ...col }) => col);
+}
+
+/** Snap each value to the heading above it; far-off values stay unassigned. */
+function assignColumns(candidates: ValueUnitCandidate[], columns: TableColumn[]) {
+  const placed = columns.filter((c) => c.x0 != null && c.x1 != null);
+  if (!placed.length) return;
+
+  for (const c of candidates) {
+    if (c.x == null) continue;
+
+    let best: TableColumn | null = null;
+    let bestDx = Infinity;
+    for (const col of placed) {
+      const dx = Math.abs(c.x - (col.x0! + col.x1!) / 2);
+      if (dx < bestDx) {
+        bestDx = dx;
+        best = col;
+      }
+    }
+
+    const width = best ? best.x1! - best.x0! : 0;
+    if (best && bestDx <= Math.max(width, 0.12)) c.column = best.basis;
+  }
+}
+
+/* -----------------------------
+   Step 4: value/unit candidates + labels
+------------------------------ */
+
+const VALUE_UNIT_RE = /(\d+(?:\.\d+)?)\s*(mg|mcg|µg|ug|g|kj|kcal|cal)\b(?!\s*%)/gi;
+
+/** Index of the token that printed `number`, scanning forward from `from`. */
+function findValueToken(tokens: Token[], number: string, from: number): number {
+  for (let i = from; i < tokens.length; i++) {
+    if (normalizeLineForExtraction(tokens[i].text).includes(number)) return i;
+  }
+  return -1;
+}
+
+function extractValueUnitCandidates(lines: SourceLine[]): ValueUnitCandidate[] {
+  const out: ValueUnitCandidate[] = [];
+
+  lines.forEach((src, lineIndex) => {
+    const line = normalizeLineForExtraction(src.text.trim());
+    if (!line) return;
+
+    let tokenIndex = 0;
+    let cursor = 0;
+
+    const push = (raw: string, num: string, unit: string) => {
+      const value = Number(num);
+      if (!Number.isFinite(value)) return;
+
+      const c: ValueUnitCandidate = {
+        raw,
+        value,
+        unit,
+        line,
+        lineIndex,
+        tokenIndex: tokenIndex++,
+      };
+
+      const ti = findValueToken(src.tokens, num, cursor);
+      if (ti !== -1) {
+        cursor = ti + 1;
+        c.x = xMid(src.tokens[ti].bbox);
+        c.ocrConfidence = src.tokens[ti].confidence;
+      }
+
+      out.push(c);
+    };
+
+    VALUE_UNIT_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = VALUE_UNIT_RE.exec(line)) !== null) {
+      push(m[0], m[1], normalizeUnit(m[2]));
+    }
+
+    // US labels print "Calories 90" with no unit (one number per column)
+    if (tokenIndex === 0 && /^calories\b/i.test(line)) {
+      for (const num of line.match(/\d+(?:\.\d+)?(?!\s*%)\b/g) ?? []) {
+        push(num, num, "kcal");
+      }
+    }
+  });
+
+  return out;
+}
+
+/** Text before the first number, e.g. "Fat, saturated 2.1g" -> "Fat, saturated". */
+function labelFromLine(line: string): string {
+  const head = line.split(/\d/)[0] ?? "";
+  return head
+    .replace(/\(.*$/, "")
+    .replace(/[:\-–—.,\s]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Text after the first value, e.g. "Includes 10g Added Sugars 20%" -> "Added Sugars". */
+function labelAfterValue(line: string): string {
+  const m = line.match(/\d+(?:\.\d+)?\s*(?:mg|mcg|µg|ug|g|kj|kcal|cal)\b\s*([a-z][^\d(]*)/i);
+  return m ? m[1].replace(/[:\-–—.,\s]+$/, "").replace(/\s+/g, " ").trim() : "";
+}
+
+/**
+ * The nutrient name printed on a value's own line. Usually it leads
+ * ("Protein 5g"); US sub-rows put it after the value ("Includes 10g Added
+ * Sugars"), so the trailing text wins when only it names a nutrient.
+ */
+function sameLineLabel(line: string): string {
+  const head = labelFromLine(line);
+  if (matchNutrientKey(head)) return head;
+
+  const after = labelAfterValue(line);
+  return matchNutrientKey(after) ? after : head;
+}
+
+function isLabelOnlyLine(line: string): boolean {
+  return /[a-z]/i.test(line) && !/\d/.test(line) && !isHeaderNoise(line);
+}
+
+function attachLabels(
+  candidates: ValueUnitCandidate[],
+  lines: string[]
+): LabeledValueUnitCandidate[] {
+  const out: LabeledValueUnitCandidate[] = [];
+
+  for (const c of candidates) {
+    let label = sameLineLabel(c.line);
+
+    // Columnar layouts: Vision puts "Protein" and "5.9g" on separate lines
+    if (!/[a-z]/i.test(label)) {
+      label = "";
+      for (let i = c.lineIndex - 1; i >= Math.max(0, c.lineIndex - 3); i--) {
+        if (isLabelOnlyLine(lines[i])) {
+          label = labelFromLine(lines[i]) || lines[i].trim();
+          break;
+        }
+      }
+    }
+
+    if (/serving\s*size/i.test(label)) label = "Serving Size";
+    if (label) out.push({ ...c, label });
+  }
+
+  return out;
+}
+
 /* -----------------------------
    Step 5 grouping
 ------------------------------ */
@@ -236,41 +638,335 @@ export function groupByLabelPickPrimary(
 }
 
 /* -----------------------------
-   Public OCR post function
+   Step 6: nutrient mapping
 ------------------------------ */
 
-export function ocrPost(r0: any) {
-  const fullText =
-    r0?.fullTextAnnotation?.text ||
-    r0?.textAnnotations?.[0]?.description ||
-    "";
+type ParsedNutrients = OcrPostResult["nutrients"];
 
-  const items: OcrItem[] = (r0?.textAnnotations || [])
-    .slice(1)
-    .map((a: any) => ({
-      text: a?.description ?? "",
-      boundingBox: a?.boundingPoly?.vertices || [],
-    }));
+const MASS_TO_MG: Record<string, number> = { g: 1000, mg: 1, mcg: 0.001 };
 
-  const ocr: OcrResultLike = { fullText, items };
+function convertUnit(value: number, from: string, to: string): number | null {
+  if (from === to) return value;
+  if (MASS_TO_MG[from] != null && MASS_TO_MG[to] != null) {
+    return (value * MASS_TO_MG[from]) / MASS_TO_MG[to];
+  }
+  return null;
+}
 
-  const tokens = items.map(tokenFromItem).filter(Boolean) as Token[];
-  const builtLines = buildLinesFromTokens(tokens);
+const LOW_OCR_CONFIDENCE = 0.5;
+
+function candidateConfidence(c: LabeledValueUnitCandidate): Confidence {
+  if (c.ocrConfidence != null && c.ocrConfidence < LOW_OCR_CONFIDENCE) return "Low";
+
+  // Label and value printed together is the clearest case
+  return sameLineLabel(c.line).toLowerCase() === c.label.toLowerCase()
+    ? "High"
+    : "Med";
+}
+
+// Print order when nothing better is known: label | per serve | per 100 g
+const DEFAULT_COLUMN_ORDER: ColumnBasis[] = ["per_serve", "per_100g"];
+
+/**
+ * Spread one row's values over the table columns. Headings decide when
+ * every value sits under one; otherwise print order does, following the
+ * detected headings (or per serve, per 100 g when there are none).
+ */
+function splitColumns(
+  items: LabeledValueUnitCandidate[],
+  columns: TableColumn[]
+): Partial<Record<ColumnBasis, LabeledValueUnitCandidate>> {
+  const out: Partial<Record<ColumnBasis, LabeledValueUnitCandidate>> = {};
+
+  if (items.every((c) => c.column)) {
+    for (const c of items) out[c.column!] ??= c;
+    return out;
+  }
+
+  // % values never reach here, so %DI headings take no values
+  const order = columns.length
+    ? columns.map((c) => c.basis).filter((b) => b !== "daily_intake")
+    : DEFAULT_COLUMN_ORDER;
+
+  items.forEach((c, i) => {
+    if (order[i]) out[order[i]] ??= c;
+  });
+  return out;
+}
+
+export function mapRowsToNutrients(
+  rows: LabelRow[],
+  columns: TableColumn[] = []
+): ParsedNutrients {
+  const nutrients: ParsedNutrients = {};
+
+  function assign(key: NutrientKey, items: LabeledValueUnitCandidate[]) {
+    if (nutrients[key] || !items.length) return; // first row wins
+
+    const unit = getNutrientDef(key).unit;
+    const byColumn = splitColumns(items, columns);
+
+    const values: ParsedNutrient["values"] = {};
+    for (const [basis, c] of Object.entries(byColumn)) {
+      const v = convertUnit(c.value, c.unit, unit);
+      if (v != null) values[basis as ColumnBasis] = v;
+    }
+
+    const source = byColumn.per_serve ?? Object.values(byColumn)[0];
+    if (!source) return;
+
+    nutrients[key] = {
+      perServe: values.per_serve ?? null,
+      per100: values.per_100g ?? values.per_100ml ?? null,
+      values,
+      unit,
+      confidence: candidateConfidence(source),
+    };
+  }
+
+  for (const row of rows) {
+    const key = matchNutrientKey(row.label);
+    if (!key) continue;
+
+    const items = [row.primary, ...row.alternates];
+
+    if (isEnergyKey(key)) {
+      // "Energy 1500kJ (360kcal)" fills both energy keys
+      assign("energy_kj", items.filter((c) => energyKeyForUnit(c.unit) === "energy_kj"));
+      assign("energy_kcal", items.filter((c) => energyKeyForUnit(c.unit) === "energy_kcal"));
+      continue;
+    }
+
+    const unit = getNutrientDef(key).unit;
+    assign(key, items.filter((c) => convertUnit(c.value, c.unit, unit) != null));
+  }
+
+  return nutrients;
+}
+
+/* -----------------------------
+   Serving meta
+------------------------------ */
+
+const SERVING_RE = /(\d+(?:\.\d+)?)\s*(g|ml)\b/i;
+
+const FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+};
+
+const HOUSEHOLD_RE =
+  /(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|[½⅓⅔¼¾])\s*([a-z][a-z.-]*(?:\s+(?!per\b|serv|avg)[a-z][a-z.-]*)?)/i;
+
+// Metric units and panel words that aren't household measures
+const NOT_HOUSEHOLD = /^(?:g|mg|kg|ml|l|kj|kcal|cal|serv(?:e|ing)s?|per|x)\b/i;
+
+function parseAmount(raw: string): number {
+  if (FRACTIONS[raw] != null) return FRACTIONS[raw];
+  const mixed = raw.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const frac = raw.match(/^(\d+)\/(\d+)$/);
+  if (frac) return Number(frac[1]) / Number(frac[2]);
+  return Number(raw);
+}
 
-  const rawLines =
-    builtLines.length > 0
-      ? builtLines.map((l) => l.text)
-      : fullText.split(/\r?\n/).map((s) => s.trim()).filter(Boolean);
+/** "2 slices", "1/2 cup", "½ cup" -> household measure; null for metric amounts. */
+export function parseHouseholdMeasure(text: string): HouseholdMeasure | null {
+  const m = text.match(HOUSEHOLD_RE);
+  if (!m) return null;
 
-  const lines = rawLines.filter(
-    (l) => !isDailyValuesNoise(l) && !isHeaderNoise(l)
+  const unit = m[2].trim().replace(/[.\s-]+$/, "");
+  if (!unit || NOT_HOUSEHOLD.test(unit)) return null;
+
+  const value = parseAmount(m[1]);
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  return { value, unit: unit.toLowerCase() };
+}
+
+// "1 cup (114g)" or "30g (1 cup)": the household part is whatever isn't metric
+function householdFromServingText(text: string): HouseholdMeasure | null {
+  const rest = text
+    .replace(/.*serving\s*size\s*:?/i, "")
+    .replace(/\d+(?:\.\d+)?\s*(?:g|ml)\b/gi, "")
+    .replace(/[()[\]]/g, " ");
+  return parseHouseholdMeasure(rest);
+}
+
+const NET_RE =
+  /\bnet\s*(?:wt\.?|weight|contents?|qty|quantity|vol(?:ume)?)?\s*:?\s*(?:\d+(?:\.\d+)?\s*(?:fl\.?\s*)?(?:oz|lbs?)\s*\(?\s*)?(\d+(?:\.\d+)?)\s*(kg|g|ml|l)\b/i;
+
+export function extractServingMeta(lines: string[]): ServingMeta {
+  let servingSize: ServingMeta["servingSize"] = null;
+  let household: HouseholdMeasure | null = null;
+  let servingsPerPack: number | null = null;
+  let netQuantity: ServingMeta["netQuantity"] = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = normalizeLineForExtraction(lines[i]);
+
+    if (!servingSize && /serving\s*size/i.test(line)) {
+      // "Serving Size 1 cup (114g)" -> 114g; columnar layouts put it on the next line
+      const next = lines[i + 1] ?? "";
+      const m = line.match(SERVING_RE) ?? next.match(SERVING_RE);
+      household =
+        householdFromServingText(line) ??
+        (!SERVING_RE.test(line) && m ? householdFromServingText(next) : null);
+      if (m) {
+        servingSize = {
+          value: Number(m[1]),
+          unit: m[2].toLowerCase() as "g" | "ml",
+        };
+      } else {
+        const num = line.replace(/.*serving\s*size/i, "").match(/(\d+(?:\.\d+)?)/);
+        if (num) servingSize = { value: Number(num[1]), unit: "" };
+      }
+    }
+
+    if (servingsPerPack == null) {
+      // "Servings per package: 8" (AU) or "8 servings per container" (US)
+      const after = line.match(
+        /servings?\s*per\s*(?:pack(?:age)?|container|pkg|bottle)\D*?(\d+(?:\.\d+)?)/i
+      );
+      const before = line.match(
+        /(\d+(?:\.\d+)?)\s*servings?\s*per\s*(?:pack(?:age)?|container|pkg|bottle)/i
+      );
+      const v = Number((after ?? before)?.[1]);
+      if (Number.isFinite(v) && v > 0) servingsPerPack = v;
+    }
+
+    if (!netQuantity) {
+      // "Net wt 16 oz (454g)", "Net contents 1.25L"
+      const m = line.match(NET_RE);
+      if (m) {
+        const unit = m[2].toLowerCase();
+        const scale = unit === "kg" || unit === "l" ? 1000 : 1;
+        netQuantity = {
+          value: Number(m[1]) * scale,
+          unit: unit === "kg" || unit === "g" ? "g" : "ml",
+        };
+      }
+    }
+  }
+
+  return { servingSize, household, servingsPerPack, netQuantity };
+}
+
+/* -----------------------------
+   Pipeline
+------------------------------ */
+
+function runPipeline(source: SourceLine[]) {
+  // Headings first: the noise filter below drops "per 100g" lines
+  const columns = detectColumns(source);
+
+  const kept: SourceLine[] = [];
+  const droppedLines: DroppedLine[] = [];
+
+  for (const l of source) {
+    if (isDailyValuesNoise(l.text)) droppedLines.push({ line: l.text, reason: "DAILY_VALUE" });
+    else if (isHeaderNoise(l.text)) droppedLines.push({ line: l.text, reason: "HEADER" });
+    else kept.push(l);
+  }
+
+  const lines = kept.map((l) => l.text);
+  const values = extractValueUnitCandidates(kept);
+  assignColumns(values, columns);
+
+  const candidates = attachLabels(values, lines);
+  const rows = groupByLabelPickPrimary(candidates);
+
+  return {
+    lines,
+    candidates,
+    rows,
+    columns,
+    nutrients: mapRowsToNutrients(rows, columns),
+    serving: extractServingMeta(lines),
+    droppedLines,
+  };
+}
+
+function toResult(
+  out: ReturnType<typeof runPipeline>,
+  tokens: Token[],
+  debug: boolean
+): OcrPostResult {
+  const result: OcrPostResult = {
+    version: OCR_RESULT_VERSION,
+    lines: out.lines,
+    rows: out.rows,
+    columns: out.columns,
+    nutrients: out.nutrients,
+    serving: out.serving,
+  };
+
+  if (debug) {
+    result.debug = {
+      tokens,
+      droppedLines: out.droppedLines,
+      candidates: out.candidates,
+    };
+  }
+
+  return result;
+}
+
+function sourceLinesFor(tokens: Token[], fullText: string): SourceLine[] {
+  const built = buildLinesFromTokens(tokens);
+  return built.length ? built : linesFromText((fullText ?? "").split(/\r?\n/));
+}
+
+/* -----------------------------
+   Public OCR post functions
+------------------------------ */
+
+/** Step 4: every value/unit pair with the row label it belongs to. */
+export function extractLabeledValueUnitCandidates(ocr: OcrResultLike) {
+  const { lines, candidates } = runPipeline(
+    sourceLinesFor(tokensFromItems(ocr.items ?? []), ocr.fullText)
   );
+  return { lines, candidates };
+}
 
-  // Placeholder until nutrient mapping (Checkpoint E)
-  const rows: LabelRow[] = [];
+/** Step 5: candidates grouped per label (primary + alternates). */
+export function extractLabelRows(ocr: OcrResultLike) {
+  const { lines, rows } = runPipeline(
+    sourceLinesFor(tokensFromItems(ocr.items ?? []), ocr.fullText)
+  );
+  return { lines, rows };
+}
 
+/** Text-only input (no geometry): columns fall back to print order. */
+export function ocrPostLines(rawLines: string[]): OcrPostResult {
+  return toResult(runPipeline(linesFromText(rawLines)), [], false);
+}
+
+/** Vision `responses[0]` -> OcrPage. */
+export function pageFromVision(r0: VisionResponse): OcrPage {
   return {
-    lines,       // ✅ REQUIRED by frontend
-    rows,        // ✅ Future-proof
+    fullText:
+      r0?.fullTextAnnotation?.text ||
+      r0?.textAnnotations?.[0]?.description ||
+      "",
+    tokens: tokensFromVision(r0),
+    vision: r0,
   };
 }
+
+/** Full pass over one OCR page, whichever engine produced it. */
+export function ocrPostPage(page: OcrPage, options: { debug?: boolean } = {}): OcrPostResult {
+  return toResult(
+    runPipeline(sourceLinesFor(page.tokens, page.fullText)),
+    page.tokens,
+    options.debug === true
+  );
+}
+
+/** Full pass over one Vision `responses[0]` entry. */
+export function ocrPost(r0: VisionResponse, options: { debug?: boolean } = {}): OcrPostResult {
+  return ocrPostPage(pageFromVision(r0), options);
+}
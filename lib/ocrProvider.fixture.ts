@@ -0,0 +1,50 @@
+// lib/ocrProvider.fixture.ts
+// Deterministic OCR for local runs: replays a recorded Vision response from
+// fixtures/ocr. Picks the fixture whose imageSha256 matches the upload, else
+// the one named by OCR_FIXTURE.
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { isOcrFixture, type OcrFixture } from "./ocrFixture";
+import { pageFromVision } from "./ocrPost";
+import { ocrProviderError, type OcrProvider } from "./ocrProvider";
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "ocr");
+
+function loadFixtures(): OcrFixture[] {
+  if (!fs.existsSync(FIXTURE_DIR)) return [];
+
+  return fs
+    .readdirSync(FIXTURE_DIR)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((f) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, f), "utf8")))
+    .filter(isOcrFixture);
+}
+
+export const fixtureProvider: OcrProvider = {
+  name: "fixture",
+
+  async recognize(imageBase64) {
+    const fixtures = loadFixtures();
+    const sha = createHash("sha256")
+      .update(Buffer.from(imageBase64, "base64"))
+      .digest("hex");
+
+    const wanted = process.env.OCR_FIXTURE;
+    const fixture =
+      fixtures.find((f) => f.imageSha256 === sha) ??
+      fixtures.find((f) => f.name === wanted);
+
+    if (!fixture) {
+      throw ocrProviderError(
+        "FIXTURE_NOT_FOUND",
+        404,
+        `No fixture for image ${sha.slice(0, 12)} and OCR_FIXTURE="${wanted ?? ""}"`
+      );
+    }
+
+    return pageFromVision(fixture.vision);
+  },
+};
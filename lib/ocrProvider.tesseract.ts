@@ -0,0 +1,76 @@
+// lib/ocrProvider.tesseract.ts
+// Offline OCR with tesseract.js (English). Slower and noisier than Vision,
+// but needs no key. Point TESSERACT_LANG_PATH at a folder holding
+// eng.traineddata to avoid the one-off language download.
+
+import { createWorker } from "tesseract.js";
+import { normalizePixelTokens, type Token } from "./ocrPost";
+import { ocrProviderError, type OcrProvider } from "./ocrProvider";
+
+// tesseract.js never settles createWorker() when the language data fails
+// to load, so bound the wait ourselves.
+const WORKER_START_TIMEOUT_MS = 30_000;
+
+function startWorker() {
+  const langPath = process.env.TESSERACT_LANG_PATH;
+
+  const worker = createWorker("eng", undefined, {
+    ...(langPath ? { langPath, gzip: false } : {}),
+    // Without an errorHandler tesseract.js rethrows worker failures
+    // outside our promise chain.
+    errorHandler: (err) => console.error("[ocr] tesseract:", err),
+  });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("Tesseract worker did not start (language data unavailable?)")),
+      WORKER_START_TIMEOUT_MS
+    );
+  });
+
+  return Promise.race([worker, timeout]).finally(() => clearTimeout(timer));
+}
+
+export const tesseractProvider: OcrProvider = {
+  name: "tesseract",
+
+  async recognize(imageBase64) {
+    let worker: Awaited<ReturnType<typeof createWorker>> | null = null;
+
+    try {
+      worker = await startWorker();
+
+      const { data } = await worker.recognize(
+        Buffer.from(imageBase64, "base64"),
+        {},
+        { text: true, blocks: true }
+      );
+
+      const words: Token[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const para of block.paragraphs) {
+          for (const line of para.lines) {
+            for (const word of line.words) {
+              words.push({
+                text: word.text,
+                bbox: word.bbox,
+                confidence: word.confidence / 100, // Tesseract reports 0..100
+              });
+            }
+          }
+        }
+      }
+
+      return { fullText: data.text ?? "", tokens: normalizePixelTokens(words) };
+    } catch (err) {
+      throw ocrProviderError(
+        "TESSERACT_ERROR",
+        500,
+        err instanceof Error ? err.message : String(err)
+      );
+    } finally {
+      await worker?.terminate();
+    }
+  },
+};
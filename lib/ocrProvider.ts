@@ -0,0 +1,48 @@
+// lib/ocrProvider.ts
+// Server-side OCR engine switch. Every provider returns an OcrPage (words as
+// page-relative Tokens), so /api/ocr and scripts never see engine formats.
+//
+//   OCR_PROVIDER=vision     Google Vision (default, needs OCR_key)
+//   OCR_PROVIDER=tesseract  tesseract.js, offline
+//   OCR_PROVIDER=fixture    replays fixtures/ocr/*.json (see OCR_FIXTURE)
+
+import type { OcrPage } from "./ocrPost";
+
+export type OcrProviderName = "vision" | "tesseract" | "fixture";
+
+export type OcrProvider = {
+  name: OcrProviderName;
+  recognize(imageBase64: string): Promise<OcrPage>;
+};
+
+/** Error with an API-facing code + HTTP status (api/ocr.ts passes both on). */
+export type OcrProviderError = Error & { code: string; status: number };
+
+export function ocrProviderError(
+  code: string,
+  status: number,
+  message?: string
+): OcrProviderError {
+  const err = new Error(message ?? code) as OcrProviderError;
+  err.code = code;
+  err.status = status;
+  return err;
+}
+
+// Loaded on demand: tesseract.js pulls in a wasm runtime Vision never needs
+const PROVIDERS: Record<OcrProviderName, () => Promise<OcrProvider>> = {
+  vision: async () => (await import("./ocrProvider.vision")).visionProvider,
+  tesseract: async () => (await import("./ocrProvider.tesseract")).tesseractProvider,
+  fixture: async () => (await import("./ocrProvider.fixture")).fixtureProvider,
+};
+
+export async function getOcrProvider(
+  name: string | undefined = process.env.OCR_PROVIDER
+): Promise<OcrProvider> {
+  const key = (name || "vision").trim().toLowerCase();
+  const load = PROVIDERS[key as OcrProviderName];
+  if (!load) {
+    throw ocrProviderError("UNKNOWN_OCR_PROVIDER", 500, `Unknown OCR_PROVIDER "${name}"`);
+  }
+  return load();
+}
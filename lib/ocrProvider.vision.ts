@@ -0,0 +1,46 @@
+// lib/ocrProvider.vision.ts
+// Google Vision DOCUMENT_TEXT_DETECTION via REST (key in OCR_key).
+
+import { pageFromVision } from "./ocrPost";
+import { ocrProviderError, type OcrProvider } from "./ocrProvider";
+
+export const visionProvider: OcrProvider = {
+  name: "vision",
+
+  async recognize(imageBase64) {
+    const key = process.env.OCR_key;
+    if (!key) {
+      throw ocrProviderError("MISSING_OCR_KEY", 500, "Missing OCR_key env var");
+    }
+
+    const payload = {
+      requests: [
+        {
+          image: { content: imageBase64 },
+          features: [{ type: "DOCUMENT_TEXT_DETECTION", maxResults: 1 }],
+        },
+      ],
+    };
+
+    const visionRes = await fetch(
+      `https://vision.googleapis.com/v1/images:annotate?key=${key}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      }
+    );
+
+    const raw = await visionRes.text();
+    if (!visionRes.ok) {
+      throw ocrProviderError("VISION_ERROR", visionRes.status);
+    }
+
+    const r0 = JSON.parse(raw)?.responses?.[0];
+    if (!r0) {
+      throw ocrProviderError("VISION_ERROR", 500, "Bad Vision response");
+    }
+
+    return pageFromVision(r0);
+  },
+};
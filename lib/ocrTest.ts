@@ -1,6 +1,7 @@
 /// <reference types="node" />
 
-import fs from "node:fs";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
 
 export async function extractRawTextFromImage(imagePath: string) {
   const VISION_API_KEY = process.env.OCR_key;
@@ -60,5 +61,11 @@ export async function extractRawTextFromImage(imagePath: string) {
     boundingBox: a.boundingPoly?.vertices ?? [],
   }));
 
-  return { fullText, items };
+  return {
+    fullText,
+    items,
+    // Unflattened, for fixture recording (scripts/ocr-run.ts --record)
+    response: json.responses?.[0] ?? null,
+    imageSha256: createHash("sha256").update(imageBuffer).digest("hex"),
+  };
 }
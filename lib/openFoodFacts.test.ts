@@ -0,0 +1,28 @@
+// lib/openFoodFacts.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import type { LabelData } from "./mockLabel";
+import { buildOffProduct } from "./openFoodFacts";
+
+// Per-100-only label: OCR found no serving size, so it holds the 1 g sentinel
+const per100Only: LabelData = {
+  basis: "per_100g",
+  servingSize: { value: 1, unit: "g" },
+  nutrients: {
+    protein_g: { value: 0.1, unit: "g", confidence: "High", per100: { value: 10, source: "printed" } },
+    sodium_mg: { value: 4, unit: "mg", confidence: "High", per100: { value: 400, source: "printed" } },
+  },
+};
+
+test("without a real serving size the export is per 100 g only", () => {
+  const product = buildOffProduct(per100Only);
+  assert.equal(product.nutrition_data_per, "100g");
+  assert.equal(product.serving_size, undefined);
+  assert.deepEqual(
+    Object.keys(product.nutriments).filter((k) => k.endsWith("_serving")),
+    []
+  );
+  assert.equal(product.nutriments.proteins_100g, 10);
+  assert.equal(product.nutriments.proteins_value, 10);
+  assert.equal(product.nutriments.salt_100g, 1);
+});
@@ -0,0 +1,266 @@
+// lib/openFoodFacts.ts
+// Open Food Facts product JSON <-> LabelData.
+// OFF keeps `<id>_100g` / `<id>_serving` in grams (kJ/kcal for energy) and
+// the unit the label printed in `<id>_unit`; `_100g` means per 100 mL for
+// liquids. Fields we can't map are left out rather than guessed.
+
+import type { LabelData, NutrientKey, NutrientSource } from "./mockLabel";
+import { NUTRIENTS } from "./nutrients";
+import { formatHousehold } from "./nutritionFormat";
+import { parseHouseholdMeasure } from "./ocrPost";
+
+// Registry key -> OFF nutriment id
+const OFF_IDS: Record<NutrientKey, string> = {
+  energy_kj: "energy-kj",
+  energy_kcal: "energy-kcal",
+  protein_g: "proteins",
+  fat_g: "fat",
+  saturated_fat_g: "saturated-fat",
+  trans_fat_g: "trans-fat",
+  cholesterol_mg: "cholesterol",
+  carbs_g: "carbohydrates",
+  sugars_g: "sugars",
+  added_sugars_g: "added-sugars",
+  polyols_g: "polyols",
+  fibre_g: "fiber",
+  sodium_mg: "sodium",
+  potassium_mg: "potassium",
+  calcium_mg: "calcium",
+  iron_mg: "iron",
+  vitamin_d_mcg: "vitamin-d",
+};
+
+// Registry unit -> OFF's normalised unit (grams; energy stays as is)
+const TO_OFF_SCALE: Record<string, number> = {
+  kJ: 1,
+  kcal: 1,
+  g: 1,
+  mg: 1 / 1000,
+  mcg: 1 / 1_000_000,
+};
+
+const SALT_PER_SODIUM = 2.5;
+
+export type OffNutriments = Record<string, number | string>;
+
+export type OffProduct = {
+  product_name?: string;
+  quantity?: string;
+  product_quantity?: number;
+  product_quantity_unit?: string;
+  serving_size?: string;
+  serving_quantity?: number;
+  serving_quantity_unit?: string;
+  nutrition_data_per: "100g" | "serving";
+  nutriments: OffNutriments;
+};
+
+function clean(n: number) {
+  return Number(n.toPrecision(6));
+}
+
+function per100Value(value: number, servingSize: number) {
+  return (value / servingSize) * 100;
+}
+
+/* -----------------------------
+   Export
+------------------------------ */
+
+/** OFF product fields for a label, ready to paste into an OFF edit or API call. */
+export function buildOffProduct(label: LabelData): OffProduct {
+  const { value: serving, unit, household } = label.servingSize;
+  const hasServing = serving >= 5;
+  const entries = NUTRIENTS.flatMap((def) => {
+    const n = label.nutrients[def.key];
+    return n ? [{ def, n }] : [];
+  });
+
+  // Say "per 100g" when every per-100 figure came off the label, or when the
+  // serving is the OCR sentinel and per-serve values would really be per 1 g
+  const allPrinted100 =
+    entries.length > 0 && entries.every(({ n }) => n.per100?.source === "printed");
+  const per: OffProduct["nutrition_data_per"] =
+    allPrinted100 || !hasServing ? "100g" : "serving";
+
+  const nutriments: OffNutriments = {};
+
+  for (const { def, n } of entries) {
+    const id = OFF_IDS[def.key];
+    const scale = TO_OFF_SCALE[def.unit];
+    const per100 = n.per100?.value ?? (hasServing ? per100Value(n.value, serving) : null);
+    if (!hasServing && per100 == null) continue;
+
+    if (hasServing) nutriments[`${id}_serving`] = clean(n.value * scale);
+    if (per100 != null) nutriments[`${id}_100g`] = clean(per100 * scale);
+    nutriments[`${id}_unit`] = def.unit === "mcg" ? "µg" : def.unit;
+    nutriments[`${id}_value`] = clean(per === "100g" && per100 != null ? per100 : n.value);
+  }
+
+  // OFF shows salt next to sodium; it is always sodium × 2.5
+  if (nutriments["sodium_unit"]) {
+    const servingSodium = nutriments["sodium_serving"];
+    if (typeof servingSodium === "number") {
+      nutriments["salt_serving"] = clean(servingSodium * SALT_PER_SODIUM);
+    }
+    if (typeof nutriments["sodium_100g"] === "number") {
+      nutriments["salt_100g"] = clean((nutriments["sodium_100g"] as number) * SALT_PER_SODIUM);
+    }
+    nutriments["salt_unit"] = "g";
+  }
+
+  const servingText = household
+    ? `${formatHousehold(household)} (${serving} ${unit})`
+    : `${serving} ${unit}`;
+
+  return {
+    ...(label.name ? { product_name: label.name } : {}),
+    ...(label.netQuantity
+      ? {
+          quantity: `${label.netQuantity.value} ${label.netQuantity.unit}`,
+          product_quantity: label.netQuantity.value,
+          product_quantity_unit: label.netQuantity.unit,
+        }
+      : {}),
+    ...(hasServing
+      ? { serving_size: servingText, serving_quantity: serving, serving_quantity_unit: unit }
+      : {}),
+    nutrition_data_per: per,
+    nutriments,
+  };
+}
+
+export function buildOffJSON(label: LabelData) {
+  return JSON.stringify(buildOffProduct(label), null, 2);
+}
+
+/* -----------------------------
+   Import
+------------------------------ */
+
+const METRIC_RE = /(\d+(?:[.,]\d+)?)\s*(kg|g|ml|cl|l)\b/i;
+
+// "1.5 l" -> 1500 ml, "30 g" -> 30 g
+function parseMetric(text: string | undefined): { value: number; unit: "g" | "ml" } | null {
+  const m = text?.match(METRIC_RE);
+  if (!m) return null;
+
+  const value = Number(m[1].replace(",", "."));
+  const u = m[2].toLowerCase();
+  if (!Number.isFinite(value) || value <= 0) return null;
+
+  if (u === "kg") return { value: value * 1000, unit: "g" };
+  if (u === "l") return { value: value * 1000, unit: "ml" };
+  if (u === "cl") return { value: value * 10, unit: "ml" };
+  return { value, unit: u as "g" | "ml" };
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(x: unknown): x is JsonObject {
+  return x != null && typeof x === "object" && !Array.isArray(x);
+}
+
+function numberField(obj: JsonObject, field: string): number | null {
+  const v = obj[field];
+  const n = typeof v === "string" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+function stringField(obj: JsonObject, field: string): string | undefined {
+  const v = obj[field];
+  return typeof v === "string" ? v : undefined;
+}
+
+// The product object of an OFF API response ({ product }) or a bare product
+function offProductOf(x: unknown): JsonObject | null {
+  const product = isObject(x) && isObject(x.product) ? x.product : x;
+  return isObject(product) && isObject(product.nutriments) ? product : null;
+}
+
+/** Accepts an OFF API response ({ product }) or a bare product object. */
+export function isOffProductJson(x: unknown): boolean {
+  return offProductOf(x) != null;
+}
+
+/**
+ * OFF product JSON -> LabelData. Per-serve values come from `_serving`, or
+ * are calculated from `_100g` through the serving size.
+ */
+export function offProductToLabelData(json: unknown): LabelData {
+  const product = offProductOf(json);
+  if (!product) throw new Error("NOT_OFF_PRODUCT");
+  const nutriments = product.nutriments as JsonObject;
+  const servingText = stringField(product, "serving_size");
+
+  // serving_quantity is a bare number; its unit is optional and mostly absent
+  const fromText = parseMetric(servingText);
+  const quantity = numberField(product, "serving_quantity");
+  const quantityUnit = (
+    stringField(product, "serving_quantity_unit") ??
+    fromText?.unit ??
+    "g"
+  ).toLowerCase();
+  const serving =
+    quantity != null && quantity > 0 && (quantityUnit === "g" || quantityUnit === "ml")
+      ? { value: quantity, unit: quantityUnit as "g" | "ml" }
+      : fromText;
+
+  // Sentinel like OCR: unknown serving stays 1 g
+  const servingSize: LabelData["servingSize"] = serving ? { ...serving } : { value: 1, unit: "g" };
+  const hasServing = servingSize.value >= 5;
+
+  const household = servingText
+    ? parseHouseholdMeasure(servingText.replace(/\d+(?:[.,]\d+)?\s*(?:g|ml)\b/gi, ""))
+    : null;
+  if (household) servingSize.household = household;
+
+  // OFF derives the other column itself; only the one entered was printed
+  const per = product.nutrition_data_per === "serving" ? "serving" : "100g";
+  const nutrients: LabelData["nutrients"] = {};
+
+  for (const def of NUTRIENTS) {
+    const id = OFF_IDS[def.key];
+    const scale = TO_OFF_SCALE[def.unit];
+    const perServing = numberField(nutriments, `${id}_serving`);
+    const per100g = numberField(nutriments, `${id}_100g`);
+
+    const per100 = per100g != null ? per100g / scale : null;
+    let value = perServing != null ? perServing / scale : null;
+    let source: NutrientSource = per === "serving" ? "printed" : "calculated";
+
+    if (value == null && per100 != null && hasServing) {
+      value = (per100 * servingSize.value) / 100;
+      source = "calculated";
+    }
+    if (value == null) continue;
+
+    nutrients[def.key] = {
+      value: clean(value),
+      unit: def.unit,
+      // Crowd-entered and unreviewed: Med so Review asks for a check
+      confidence: "Med",
+      ...(source === "calculated" ? { source } : {}),
+      ...(per100 != null
+        ? { per100: { value: clean(per100), source: per === "100g" ? "printed" as const : "calculated" as const } }
+        : {}),
+    };
+  }
+
+  const packQuantity = numberField(product, "product_quantity");
+  const packUnit = stringField(product, "product_quantity_unit");
+  const netQuantity =
+    packQuantity != null && packQuantity > 0 && (packUnit === "g" || packUnit === "ml")
+      ? { value: packQuantity, unit: packUnit as "g" | "ml" }
+      : parseMetric(stringField(product, "quantity"));
+
+  return {
+    basis: "per_serve",
+    servingSize,
+    ...(stringField(product, "product_name")?.trim()
+      ? { name: stringField(product, "product_name")!.trim() }
+      : {}),
+    ...(netQuantity ? { netQuantity } : {}),
+    nutrients,
+  };
+}
@@ -0,0 +1,57 @@
+// lib/pdfHandout.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { mockLabel, type LabelData } from "./mockLabel";
+import { NUTRIENTS } from "./nutrients";
+import { buildPDF } from "./pdfHandout";
+
+// Every tracked nutrient, with pack info and %DV: the tallest label table
+const fullLabel: LabelData = {
+  ...mockLabel,
+  name: "Muesli bar",
+  servingsPerPack: 6,
+  netQuantity: { value: 360, unit: "g" },
+  nutrients: Object.fromEntries(
+    NUTRIENTS.map((d) => [d.key, { value: 1, unit: d.unit, confidence: "High" }])
+  ),
+};
+
+// Page scale (1 when unscaled) and the lowest text baseline, in points from the page bottom
+function layout(pdf: string) {
+  const m = /q ([\d.]+) 0 0 [\d.]+ [\d.]+ ([\d.]+) cm/.exec(pdf);
+  const scale = m ? Number(m[1]) : 1;
+  const offset = m ? Number(m[2]) : 0;
+
+  let lowest = Infinity;
+  const td = / (-?[\d.]+) Td /g;
+  let t: RegExpExecArray | null;
+  while ((t = td.exec(pdf))) lowest = Math.min(lowest, Number(t[1]) * scale + offset);
+  return { scale, lowest };
+}
+
+test("a short handout is not scaled", () => {
+  const { scale, lowest } = layout(buildPDF(mockLabel, "per_serve"));
+  assert.equal(scale, 1);
+  assert.ok(lowest >= 50);
+});
+
+test("the tallest handout is scaled to fit the page, footnote included", () => {
+  const pdf = buildPDF(fullLabel, "per_serve", undefined, 2, "fda", "fda");
+  const { scale, lowest } = layout(pdf);
+  assert.match(pdf, /\/Count 1 /);
+  assert.ok(scale < 1);
+  assert.ok(lowest > 0);
+  assert.match(pdf, /\(\* Calculated by NutriCopy, not printed on the label.\)/);
+});
+
+test("consumption inputs add what was eaten below the label table", () => {
+  const pdf = buildPDF(fullLabel, "per_100g", undefined, 2);
+  assert.match(pdf, /\(Nutrition information per 100 g\)/);
+  assert.match(pdf, /\(What you ate\)/);
+});
+
+test("label inputs give the label table only", () => {
+  const pdf = buildPDF(fullLabel, "per_serve");
+  assert.match(pdf, /\(Nutrition information per serve\)/);
+  assert.doesNotMatch(pdf, /\(What you ate\)/);
+});
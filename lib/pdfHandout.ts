@@ -0,0 +1,214 @@
+// lib/pdfHandout.ts
+// One-page PDF handout for a product: name, serving info, the nutrient table
+// for the chosen basis, what was eaten (in consumption mode) and the
+// confidence key from app/confidence.tsx. Built locally with lib/pdfWriter.
+
+import type { Confidence, LabelData } from "./mockLabel";
+import {
+  amountEatenLabel,
+  basisLabel,
+  dailyValuesLine,
+  getReviewRows,
+  roundingLine,
+  servingSizeLine,
+  servingsInPack,
+  type ViewBasis,
+} from "./nutritionFormat";
+import { getDailyValueTable, type DailyValueTableId } from "./dailyValues";
+import { exportText, localizeText, type ExportLocaleId } from "./exportLocale";
+import type { RoundingProfileId } from "./rounding";
+import { A4, createPdf, hexColor, type PdfPage } from "./pdfWriter";
+
+type Row = ReturnType<typeof getReviewRows>[number];
+
+const MARGIN = 50;
+const GREY = hexColor("#666666");
+const LIGHT = hexColor("#cccccc");
+
+// Same dots as the confidence key screen; the wording is in the locale's text
+const CONFIDENCE_COLORS: Record<Confidence, string> = {
+  High: "#2ecc71",
+  Med: "#f1c40f",
+  Low: "#e74c3c",
+};
+
+function isoDate(d: Date) {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+// Keeps y on the one page; fit() shrinks the page when the content ran past it
+function createCursor(pdf: ReturnType<typeof createPdf>) {
+  const page = pdf.addPage();
+  let y = MARGIN;
+
+  return {
+    get page(): PdfPage {
+      return page;
+    },
+    get y() {
+      return y;
+    },
+    down(dy: number) {
+      y += dy;
+    },
+    fit() {
+      const height = y + MARGIN;
+      if (height > A4.height) page.scale(A4.height / height);
+    },
+  };
+}
+
+type Cursor = ReturnType<typeof createCursor>;
+
+function heading(c: Cursor, text: string) {
+  c.down(22);
+  c.page.text(MARGIN, c.y, text, { size: 13, font: "bold" });
+  c.down(6);
+}
+
+// Custom amounts are all derived, so starring every row would say nothing
+function nutrientTable(
+  c: Cursor,
+  rows: Row[],
+  dailyValues: DailyValueTableId | null,
+  markCalculated: boolean,
+  locale: ExportLocaleId
+) {
+  const t = exportText(locale);
+  const right = A4.width - MARGIN;
+  const cols = { value: 250, percent: 360, confidence: 430 };
+
+  c.down(16);
+  c.page.text(MARGIN, c.y, t.nutrient, { size: 10, font: "bold" });
+  c.page.text(cols.value, c.y, t.amount, { size: 10, font: "bold" });
+  if (dailyValues) {
+    c.page.text(cols.percent, c.y, getDailyValueTable(dailyValues).term, { size: 10, font: "bold" });
+  }
+  c.page.text(cols.confidence, c.y, t.confidence, { size: 10, font: "bold" });
+  c.down(5);
+  c.page.rule(MARGIN, c.y, right, c.y, 1);
+
+  for (const r of rows) {
+    c.down(15);
+    const bold = r.depth === 0 ? "bold" : "regular";
+    c.page.text(MARGIN + r.depth * 12, c.y, r.label, { size: 11, font: bold });
+    const star = markCalculated && r.source === "calculated" ? " *" : "";
+    c.page.text(cols.value, c.y, `${r.valueText}${star}`, { size: 11 });
+    if (dailyValues && r.percentText) c.page.text(cols.percent, c.y, r.percentText, { size: 11 });
+
+    if (r.confidence) {
+      c.page.dot(cols.confidence + 4, c.y - 3.5, 4, hexColor(CONFIDENCE_COLORS[r.confidence]));
+      c.page.text(cols.confidence + 14, c.y, t.confidenceLevels[r.confidence][0], { size: 11 });
+    }
+
+    c.down(4);
+    c.page.rule(MARGIN, c.y, right, c.y, 0.5, LIGHT);
+  }
+}
+
+/**
+ * The handout as a PDF string (ASCII, safe for a text download). `basis` is
+ * the label view; the "what you ate" section follows it whenever serves or
+ * an amount are passed, which the Export screen does in consumption mode.
+ */
+export function buildPDF(
+  label: LabelData,
+  basis: ViewBasis,
+  customGrams?: number,
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  locale: ExportLocaleId = "en",
+  date: Date = new Date()
+) {
+  const t = exportText(locale);
+  const pdf = createPdf();
+  const c = createCursor(pdf);
+
+  // Title
+  c.down(22);
+  c.page.text(MARGIN, c.y, label.name?.trim() || t.nutritionInformation, {
+    size: 20,
+    font: "bold",
+  });
+  c.down(16);
+  c.page.text(MARGIN, c.y, `${t.handout} · ${isoDate(date)}`, { size: 9, color: GREY });
+
+  // Serving info
+  const info = [localizeText(servingSizeLine(label, basis, locale), locale)];
+  const serves = servingsInPack(label);
+  if (serves != null) {
+    info.push(`${t.servingsPerPack}: ${localizeText(String(Math.round(serves * 10) / 10), locale)}`);
+  }
+  if (label.netQuantity) {
+    info.push(
+      localizeText(`${t.netQuantity}: ${label.netQuantity.value} ${label.netQuantity.unit}`, locale)
+    );
+  }
+  const roundingText = roundingLine(rounding, locale);
+  if (roundingText) info.push(roundingText);
+  const dailyValuesText = dailyValuesLine(dailyValues, locale);
+  if (dailyValuesText) info.push(dailyValuesText);
+
+  c.down(8);
+  for (const line of info) {
+    c.down(15);
+    c.page.text(MARGIN, c.y, line, { size: 11 });
+  }
+
+  // Label table for the chosen view
+  heading(c, `${t.nutritionInformation} ${basisLabel(basis, label, locale)}`);
+  nutrientTable(
+    c,
+    getReviewRows(label, basis, undefined, undefined, rounding, dailyValues, locale),
+    dailyValues,
+    true,
+    locale
+  );
+
+  // What was eaten
+  const hasServes = Number.isFinite(customServes);
+  const hasGrams = Number.isFinite(customGrams);
+  if (hasServes || hasGrams) {
+    heading(c, t.whatYouAte);
+    c.down(14);
+    const amount = hasServes
+      ? `${t.servesEaten}: ${localizeText(String(customServes), locale)}`
+      : `${amountEatenLabel(label, locale)}: ${localizeText(String(customGrams), locale)}`;
+    c.page.text(MARGIN, c.y, `${amount} (${t.derivedFromServing})`, { size: 11 });
+
+    nutrientTable(
+      c,
+      getReviewRows(label, "custom", customGrams, customServes, rounding, dailyValues, locale),
+      dailyValues,
+      false,
+      locale
+    );
+  }
+
+  // Confidence key
+  heading(c, t.confidenceTitle);
+  c.down(14);
+  c.page.text(MARGIN, c.y, t.confidenceIntro[0], { size: 10 });
+  c.down(13);
+  c.page.text(MARGIN, c.y, t.confidenceIntro[1], { size: 10 });
+
+  for (const id of ["High", "Med", "Low"] as Confidence[]) {
+    const [name, text] = t.confidenceLevels[id];
+    c.down(16);
+    c.page.dot(MARGIN + 4, c.y - 3.5, 4, hexColor(CONFIDENCE_COLORS[id]));
+    c.page.text(MARGIN + 14, c.y, name, { size: 10, font: "bold" });
+    c.page.text(MARGIN + 76, c.y, `— ${text}`, { size: 10 });
+  }
+
+  c.down(20);
+  c.page.text(MARGIN, c.y, `* ${t.calculatedFootnote}`, {
+    size: 9,
+    color: GREY,
+  });
+
+  c.fit();
+  return pdf.toString();
+}
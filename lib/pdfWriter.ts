@@ -0,0 +1,168 @@
+// lib/pdfWriter.ts
+// Minimal PDF writer: text, rules and dots on A4 pages with the built-in
+// Helvetica faces, so no font is embedded and no service is involved.
+// Output is 7-bit ASCII (anything else goes out as WinAnsi octal escapes),
+// so it can be handled as a plain string, e.g. by downloadTextFile.
+
+export type PdfColor = [number, number, number]; // r, g, b in 0..1
+export type PdfFont = "regular" | "bold";
+
+type TextOptions = {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+};
+
+export type PdfPage = {
+  // y is measured from the top of the page, in points
+  text: (x: number, y: number, s: string, opts?: TextOptions) => void;
+  rule: (x1: number, y1: number, x2: number, y2: number, width?: number, color?: PdfColor) => void;
+  dot: (x: number, y: number, r: number, color: PdfColor) => void;
+  // Shrinks everything on the page about the top centre, e.g. to fit it on one sheet
+  scale: (factor: number) => void;
+};
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export function hexColor(hex: string): PdfColor {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+}
+
+// WinAnsi code points for the non-Latin-1 characters our labels use
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "†": 0x86,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "\u202f": 0xa0, // narrow no-break space (fr digit grouping) -> no-break space
+};
+
+// Characters WinAnsi lacks, spelled out
+const FALLBACK: Record<string, string> = {
+  "→": "->",
+  "≈": "~",
+  "≤": "<=",
+  "≥": ">=",
+};
+
+function pdfString(s: string) {
+  let out = "";
+  for (const ch of s) {
+    const fallback = FALLBACK[ch];
+    if (fallback) {
+      out += fallback;
+      continue;
+    }
+
+    const code = WIN_ANSI[ch] ?? ch.codePointAt(0)!;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code >= 0x20 && code < 0x7f) out += ch;
+    else if (code >= 0x80 && code <= 0xff) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += "?";
+  }
+  return `(${out})`;
+}
+
+function num(n: number) {
+  return String(Math.round(n * 100) / 100);
+}
+
+function colorOps(color: PdfColor, op: "rg" | "RG") {
+  return `${color.map(num).join(" ")} ${op}`;
+}
+
+export function createPdf() {
+  const pages: { ops: string[]; scale: number }[] = [];
+
+  function addPage(): PdfPage {
+    const ops: string[] = [];
+    const page = { ops, scale: 1 };
+    pages.push(page);
+    const flip = (y: number) => A4.height - y;
+
+    return {
+      text(x, y, s, opts = {}) {
+        const font = opts.font === "bold" ? "F2" : "F1";
+        ops.push(
+          `BT ${colorOps(opts.color ?? [0, 0, 0], "rg")} /${font} ${num(opts.size ?? 11)} Tf ` +
+            `${num(x)} ${num(flip(y))} Td ${pdfString(s)} Tj ET`
+        );
+      },
+
+      rule(x1, y1, x2, y2, width = 0.5, color = [0, 0, 0]) {
+        ops.push(
+          `${colorOps(color, "RG")} ${num(width)} w ${num(x1)} ${num(flip(y1))} m ` +
+            `${num(x2)} ${num(flip(y2))} l S`
+        );
+      },
+
+      // Circle from four Bézier quarters
+      dot(x, y, r, color) {
+        const k = r * 0.5523;
+        const cy = flip(y);
+        ops.push(
+          [
+            colorOps(color, "rg"),
+            `${num(x + r)} ${num(cy)} m`,
+            `${num(x + r)} ${num(cy + k)} ${num(x + k)} ${num(cy + r)} ${num(x)} ${num(cy + r)} c`,
+            `${num(x - k)} ${num(cy + r)} ${num(x - r)} ${num(cy + k)} ${num(x - r)} ${num(cy)} c`,
+            `${num(x - r)} ${num(cy - k)} ${num(x - k)} ${num(cy - r)} ${num(x)} ${num(cy - r)} c`,
+            `${num(x + k)} ${num(cy - r)} ${num(x + r)} ${num(cy - k)} ${num(x + r)} ${num(cy)} c`,
+            "f",
+          ].join(" ")
+        );
+      },
+
+      scale(factor) {
+        page.scale = factor;
+      },
+    };
+  }
+
+  /** The finished document. Object numbers: 1 catalog, 2 pages, 3–4 fonts, then page/content pairs. */
+  function toString() {
+    const objects: string[] = [];
+    const pageIds = pages.map((_, i) => 5 + i * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+    );
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    pages.forEach(({ ops, scale }, i) => {
+      const s = num(scale);
+      const matrix = `${s} 0 0 ${s} ${num((A4.width * (1 - scale)) / 2)} ${num(A4.height * (1 - scale))} cm`;
+      const content = scale < 1 ? `q ${matrix}\n${ops.join("\n")}\nQ` : ops.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(A4.width)} ${num(A4.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // ASCII only, so string length is the byte offset
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return out;
+  }
+
+  return { addPage, toString };
+}
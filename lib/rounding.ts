@@ -0,0 +1,154 @@
+// lib/rounding.ts
+// Rounding profiles for exported values. Each market has its own rounding
+// increments and "less than" wording; the default keeps NutriCopy's MVP rules.
+// Profiles return the number part only ("<1", "5"); callers add the unit.
+
+import type { NutrientKey } from "./mockLabel";
+import { getNutrientDef } from "./nutrients";
+
+export type RoundingProfileId = "default" | "fda" | "fsanz" | "eu";
+
+export const ROUNDING_PROFILES: { id: RoundingProfileId; label: string }[] = [
+  { id: "default", label: "NutriCopy default" },
+  { id: "fda", label: "FDA (US, 21 CFR 101.9)" },
+  { id: "fsanz", label: "FSANZ (AU/NZ, Std 1.2.8)" },
+  { id: "eu", label: "EU (Reg. 1169/2011 guidance)" },
+];
+
+export function isRoundingProfileId(x: unknown): x is RoundingProfileId {
+  return ROUNDING_PROFILES.some((p) => p.id === x);
+}
+
+export function roundingProfileLabel(id: RoundingProfileId) {
+  return ROUNDING_PROFILES.find((p) => p.id === id)?.label ?? id;
+}
+
+function roundTo(value: number, step: number) {
+  // Work in whole steps so 0.1 increments don't print as 0.30000000000000004
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return Number((Math.round(value / step) * step).toFixed(decimals));
+}
+
+function sigFigs(value: number, n: number) {
+  if (value === 0) return 0;
+  return Number(value.toPrecision(n));
+}
+
+/* -----------------------------
+   Profiles
+------------------------------ */
+
+// MVP rules: integers for kJ/kcal/mg, 1 dp for everything else
+function roundDefault(key: NutrientKey, value: number): string {
+  const unit = getNutrientDef(key).unit;
+  if (unit === "kJ" || unit === "kcal" || unit === "mg") return String(Math.round(value));
+  return String(roundTo(value, 0.1));
+}
+
+const FDA_FATS: NutrientKey[] = ["fat_g", "saturated_fat_g", "trans_fat_g"];
+
+function roundFda(key: NutrientKey, value: number): string {
+  const unit = getNutrientDef(key).unit;
+
+  if (key === "energy_kcal") {
+    if (value < 5) return "0";
+    return String(value <= 50 ? roundTo(value, 5) : roundTo(value, 10));
+  }
+
+  if (FDA_FATS.includes(key)) {
+    if (value < 0.5) return "0";
+    return String(value < 5 ? roundTo(value, 0.5) : roundTo(value, 1));
+  }
+
+  if (key === "cholesterol_mg") {
+    if (value < 2) return "0";
+    if (value <= 5) return "<5";
+    return String(roundTo(value, 5));
+  }
+
+  if (key === "sodium_mg" || key === "potassium_mg") {
+    if (value < 5) return "0";
+    return String(value <= 140 ? roundTo(value, 5) : roundTo(value, 10));
+  }
+
+  // Carbohydrate, sugars, fibre, protein and the rest of the grams
+  if (unit === "g") {
+    if (value < 0.5) return "0";
+    if (value < 1) return "<1";
+    return String(roundTo(value, 1));
+  }
+
+  // Vitamins/minerals and kJ (not declared on US labels)
+  if (unit === "mcg") return String(roundTo(value, 0.1));
+  return String(Math.round(value));
+}
+
+// Std 1.2.8 allows "less than 1 g" for these and "less than 5 mg" for sodium
+const FSANZ_LESS_THAN_1G: NutrientKey[] = [
+  "protein_g",
+  "fat_g",
+  "saturated_fat_g",
+  "trans_fat_g",
+  "carbs_g",
+  "sugars_g",
+  "fibre_g",
+];
+
+function roundFsanz(key: NutrientKey, value: number): string {
+  const unit = getNutrientDef(key).unit;
+
+  if (value > 0 && value < 1 && FSANZ_LESS_THAN_1G.includes(key)) return "<1";
+  if (key === "sodium_mg" && value > 0 && value < 5) return "<5";
+
+  // No more than 3 significant figures
+  if (unit === "g" || unit === "mcg") return String(sigFigs(roundTo(value, 0.1), 3));
+  return String(sigFigs(Math.round(value), 3));
+}
+
+const EU_MACROS: NutrientKey[] = [
+  "protein_g",
+  "fat_g",
+  "carbs_g",
+  "sugars_g",
+  "added_sugars_g",
+  "polyols_g",
+  "fibre_g",
+];
+
+function roundEu(key: NutrientKey, value: number): string {
+  const unit = getNutrientDef(key).unit;
+
+  if (unit === "kJ" || unit === "kcal") return String(Math.round(value));
+
+  if (EU_MACROS.includes(key)) {
+    if (value <= 0.5) return value > 0 ? "<0.5" : "0";
+    return String(value < 10 ? roundTo(value, 0.1) : roundTo(value, 1));
+  }
+
+  if (key === "saturated_fat_g" || key === "trans_fat_g") {
+    if (value <= 0.1) return value > 0 ? "<0.1" : "0";
+    return String(value < 10 ? roundTo(value, 0.1) : roundTo(value, 1));
+  }
+
+  // Salt rules (0.01 g below 1 g, 0.1 g above) expressed as sodium
+  // (salt = sodium × 2.5): 5 mg sodium ≈ 0.0125 g salt, 400 mg = 1 g salt
+  if (key === "sodium_mg") {
+    if (value <= 5) return value > 0 ? "<5" : "0";
+    return String(value < 400 ? roundTo(value, 4) : roundTo(value, 40));
+  }
+
+  // Vitamins and minerals: 3 significant figures
+  return String(sigFigs(value, 3));
+}
+
+/** Rounded number text for a nutrient value, without its unit. */
+export function roundNutrient(
+  key: NutrientKey,
+  value: number,
+  profile: RoundingProfileId = "default"
+): string {
+  if (profile === "fda") return roundFda(key, value);
+  if (profile === "fsanz") return roundFsanz(key, value);
+  if (profile === "eu") return roundEu(key, value);
+  return roundDefault(key, value);
+}
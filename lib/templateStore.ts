@@ -0,0 +1,64 @@
+// lib/templateStore.ts
+import { Platform } from "react-native";
+import type { ExportTemplate } from "./exportTemplate";
+
+const STORAGE_KEY = "nutricopy.exportTemplates";
+
+let templates: ExportTemplate[] | null = null;
+
+function isTemplate(x: unknown): x is ExportTemplate {
+  if (typeof x !== "object" || x === null) return false;
+  const t = x as Partial<Record<keyof ExportTemplate, unknown>>;
+  return (
+    typeof t.id === "string" &&
+    typeof t.name === "string" &&
+    typeof t.extension === "string" &&
+    typeof t.body === "string"
+  );
+}
+
+function persist(next: ExportTemplate[]) {
+  templates = next;
+
+  if (Platform.OS === "web") {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // ignore storage errors
+    }
+  }
+}
+
+export function getTemplates(): ExportTemplate[] {
+  if (templates) return templates;
+
+  templates = [];
+  if (Platform.OS === "web") {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      templates = Array.isArray(parsed) ? parsed.filter(isTemplate) : [];
+    } catch {
+      // ignore
+    }
+  }
+
+  return templates;
+}
+
+export function newTemplateId() {
+  return `tpl-${Date.now().toString(36)}`;
+}
+
+/** Adds or replaces (by id). */
+export function saveTemplate(template: ExportTemplate) {
+  const existing = getTemplates();
+  const found = existing.some((t) => t.id === template.id);
+  persist(
+    found ? existing.map((t) => (t.id === template.id ? template : t)) : [...existing, template]
+  );
+}
+
+export function deleteTemplate(id: string) {
+  persist(getTemplates().filter((t) => t.id !== id));
+}
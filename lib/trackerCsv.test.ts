@@ -0,0 +1,25 @@
+// lib/trackerCsv.test.ts
+import * as assert from "node:assert/strict";
+import { test } from "node:test";
+import { mockLabel } from "./mockLabel";
+import { buildTrackerCSV } from "./trackerCsv";
+
+// mockLabel: 60 g serve, 12 g protein
+
+function row(csv: string) {
+  const [header, values] = csv.split("\n").map((l) => l.split(","));
+  return Object.fromEntries(header.map((h, i) => [h, values[i]]));
+}
+
+test("serves win over grams, as in the other consumption exports", () => {
+  const r = row(buildTrackerCSV(mockLabel, "cronometer", 30, 2));
+  assert.equal(r["Amount"], "2 serving");
+  assert.equal(r["Protein (g)"], "24");
+});
+
+test("grams are used when no serves are set", () => {
+  const r = row(buildTrackerCSV(mockLabel, "loseit", 30, undefined));
+  assert.equal(r["Quantity"], "30");
+  assert.equal(r["Units"], "Grams");
+  assert.equal(r["Protein (g)"], "6");
+});
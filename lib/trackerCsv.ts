@@ -0,0 +1,198 @@
+// lib/trackerCsv.ts
+// Consumption CSVs with the columns of popular trackers' diary exports, for
+// spreadsheets and the third-party tools built around those files. They are
+// generic CSVs: the trackers themselves don't import their own exports.
+// One row per food eaten.
+
+import type { LabelData, NutrientKey } from "./mockLabel";
+import {
+  buildJSONDocument,
+  consumptionAmount,
+  type ExportJsonNutrient,
+} from "./nutritionFormat";
+
+export type TrackerProfileId = "cronometer" | "myfitnesspal" | "loseit";
+
+type Column = {
+  header: string;
+  value: (ctx: RowContext) => string | number;
+};
+
+type RowContext = {
+  date: string; // YYYY-MM-DD
+  name: string;
+  serves: number | null; // when the amount was entered as serves
+  amount: number | null; // g / mL eaten
+  amountUnit: "g" | "ml";
+  nutrient: (key: NutrientKey) => number | null;
+  calories: number | null;
+};
+
+export type TrackerProfile = {
+  id: TrackerProfileId;
+  label: string;
+  note: string; // shown under the layout picker
+  columns: Column[];
+};
+
+const KJ_PER_KCAL = 4.184;
+
+function oneDp(n: number | null) {
+  return n == null ? "" : Math.round(n * 10) / 10;
+}
+
+function whole(n: number | null) {
+  return n == null ? "" : Math.round(n);
+}
+
+function grams(key: NutrientKey) {
+  return (ctx: RowContext) => oneDp(ctx.nutrient(key));
+}
+
+function milligrams(key: NutrientKey) {
+  return (ctx: RowContext) => whole(ctx.nutrient(key));
+}
+
+// Vitamin D: 1 mcg = 40 IU
+function mcgToIu(mcg: number | null) {
+  return mcg == null ? null : mcg * 40;
+}
+
+export const TRACKER_PROFILES: TrackerProfile[] = [
+  {
+    // Cronometer "servings" diary export
+    id: "cronometer",
+    label: "Cronometer-style",
+    note: "Columns of Cronometer's servings export",
+    columns: [
+      { header: "Day", value: (c) => c.date },
+      { header: "Group", value: () => "Uncategorized" },
+      { header: "Food Name", value: (c) => c.name },
+      {
+        header: "Amount",
+        value: (c) =>
+          c.amount != null ? `${oneDp(c.amount)} ${c.amountUnit}` : `${oneDp(c.serves ?? 1)} serving`,
+      },
+      { header: "Energy (kcal)", value: (c) => oneDp(c.calories) },
+      { header: "Carbs (g)", value: grams("carbs_g") },
+      { header: "Fiber (g)", value: grams("fibre_g") },
+      { header: "Sugars (g)", value: grams("sugars_g") },
+      { header: "Added Sugars (g)", value: grams("added_sugars_g") },
+      { header: "Fat (g)", value: grams("fat_g") },
+      { header: "Saturated (g)", value: grams("saturated_fat_g") },
+      { header: "Trans-Fats (g)", value: grams("trans_fat_g") },
+      { header: "Cholesterol (mg)", value: milligrams("cholesterol_mg") },
+      { header: "Protein (g)", value: grams("protein_g") },
+      { header: "Sodium (mg)", value: milligrams("sodium_mg") },
+      { header: "Potassium (mg)", value: milligrams("potassium_mg") },
+      { header: "Calcium (mg)", value: milligrams("calcium_mg") },
+      { header: "Iron (mg)", value: (c) => oneDp(c.nutrient("iron_mg")) },
+      { header: "Vitamin D (IU)", value: (c) => whole(mcgToIu(c.nutrient("vitamin_d_mcg"))) },
+    ],
+  },
+  {
+    // MyFitnessPal "Nutrition Summary" export: one row per meal
+    id: "myfitnesspal",
+    label: "MyFitnessPal-style",
+    note: "Columns of MyFitnessPal's nutrition summary export; MyFitnessPal can't import it",
+    columns: [
+      { header: "Date", value: (c) => c.date },
+      { header: "Meal", value: () => "Snacks" },
+      { header: "Calories", value: (c) => whole(c.calories) },
+      { header: "Fat (g)", value: grams("fat_g") },
+      { header: "Saturated Fat", value: grams("saturated_fat_g") },
+      { header: "Trans Fat", value: grams("trans_fat_g") },
+      { header: "Cholesterol", value: milligrams("cholesterol_mg") },
+      { header: "Sodium (mg)", value: milligrams("sodium_mg") },
+      { header: "Potassium", value: milligrams("potassium_mg") },
+      { header: "Carbohydrates (g)", value: grams("carbs_g") },
+      { header: "Fiber", value: grams("fibre_g") },
+      { header: "Sugar", value: grams("sugars_g") },
+      { header: "Protein (g)", value: grams("protein_g") },
+      { header: "Note", value: (c) => c.name },
+    ],
+  },
+  {
+    // Lose It! "Food Log" export
+    id: "loseit",
+    label: "Lose It!-style",
+    note: "Columns of Lose It!'s food log export; Lose It! can't import it",
+    columns: [
+      { header: "Date", value: (c) => c.date },
+      { header: "Name", value: (c) => c.name },
+      { header: "Type", value: () => "Snacks" },
+      { header: "Quantity", value: (c) => oneDp(c.amount ?? c.serves ?? 1) },
+      {
+        header: "Units",
+        value: (c) => (c.amount != null ? (c.amountUnit === "ml" ? "Milliliters" : "Grams") : "Serving"),
+      },
+      { header: "Calories", value: (c) => whole(c.calories) },
+      { header: "Fat (g)", value: grams("fat_g") },
+      { header: "Protein (g)", value: grams("protein_g") },
+      { header: "Carbohydrates (g)", value: grams("carbs_g") },
+      { header: "Saturated Fat (g)", value: grams("saturated_fat_g") },
+      { header: "Sugars (g)", value: grams("sugars_g") },
+      { header: "Fiber (g)", value: grams("fibre_g") },
+      { header: "Cholesterol (mg)", value: milligrams("cholesterol_mg") },
+      { header: "Sodium (mg)", value: milligrams("sodium_mg") },
+    ],
+  },
+];
+
+export function isTrackerProfileId(x: unknown): x is TrackerProfileId {
+  return TRACKER_PROFILES.some((p) => p.id === x);
+}
+
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function isoDate(d: Date) {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+/**
+ * One diary row for what was eaten. Uses the consumption amount from Review
+ * the other exports use (serves first, then grams); without one, one serve.
+ */
+export function buildTrackerCSV(
+  label: LabelData,
+  profile: TrackerProfileId,
+  customGrams?: number,
+  customServes?: number,
+  date: Date = new Date()
+) {
+  const { serves, amount } = consumptionAmount(label, customGrams, customServes);
+
+  const doc = buildJSONDocument(
+    label,
+    serves != null || amount != null ? "custom" : "per_serve",
+    amount ?? undefined,
+    serves ?? undefined,
+    "consumption"
+  );
+
+  const byKey = new Map<NutrientKey, ExportJsonNutrient>(doc.nutrients.map((n) => [n.key, n]));
+  const nutrient = (key: NutrientKey) => byKey.get(key)?.value ?? null;
+  const kcal = nutrient("energy_kcal");
+  const kj = nutrient("energy_kj");
+
+  const ctx: RowContext = {
+    date: isoDate(date),
+    name: label.name?.trim() || "NutriCopy food",
+    serves,
+    amount,
+    amountUnit: label.servingSize.unit,
+    nutrient,
+    calories: kcal ?? (kj != null ? kj / KJ_PER_KCAL : null),
+  };
+
+  const { columns } = TRACKER_PROFILES.find((p) => p.id === profile)!;
+  return [
+    columns.map((c) => csvCell(c.header)).join(","),
+    columns.map((c) => csvCell(c.value(ctx))).join(","),
+  ].join("\n");
+}
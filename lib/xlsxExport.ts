@@ -0,0 +1,265 @@
+// lib/xlsxExport.ts
+// XLSX workbook: a Metadata sheet, one sheet per available basis and a
+// Consumption sheet when Review has an amount eaten. Values are numeric
+// cells with the unit in its own column, so spreadsheets can do maths on
+// them (the CSV export puts metadata and nutrients in one sheet).
+
+import type { LabelData } from "./mockLabel";
+import {
+  amountEatenLabel,
+  availableBases,
+  basisLabel,
+  buildJSONDocument,
+  formatHousehold,
+  servingsInPack,
+  type Basis,
+} from "./nutritionFormat";
+import { getDailyValueTable, type DailyValueTableId } from "./dailyValues";
+import { roundingProfileLabel, type RoundingProfileId } from "./rounding";
+import { buildZip } from "./zip";
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+type Cell = string | number | null;
+
+type Sheet = {
+  name: string;
+  widths: number[]; // characters, per column
+  rows: Cell[][]; // first row is the header
+};
+
+function escapeXml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(i: number): string {
+  return i < 26 ? String.fromCharCode(65 + i) : columnName(Math.floor(i / 26) - 1) + columnName(i % 26);
+}
+
+function cellXml(value: Cell, ref: string, bold: boolean) {
+  const style = bold ? ` s="1"` : "";
+  if (value == null || value === "") return "";
+  if (typeof value === "number") return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  return `<c r="${ref}"${style} t="inlineStr"><is><t>${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: Sheet) {
+  const cols = sheet.widths
+    .map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`)
+    .join("");
+
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row.map((v, c) => cellXml(v, `${columnName(c)}${r + 1}`, r === 0)).join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>` +
+    `<cols>${cols}</cols><sheetData>${rows}</sheetData></worksheet>`
+  );
+}
+
+// Excel: max 31 chars, none of []:*?/\
+function sheetName(s: string) {
+  return s.replace(/[[\]:*?/\\]/g, " ").slice(0, 31);
+}
+
+/* -----------------------------
+   Sheets
+------------------------------ */
+
+function metadataSheet(
+  label: LabelData,
+  customGrams: number | undefined,
+  customServes: number | undefined,
+  rounding: RoundingProfileId,
+  dailyValues: DailyValueTableId | null,
+  date: Date
+): Sheet {
+  const rows: Cell[][] = [["Field", "Value", "Unit"]];
+  const { servingSize } = label;
+
+  if (label.name) rows.push(["Food", label.name, null]);
+  rows.push(["Serving size", servingSize.value, servingSize.unit]);
+  if (servingSize.household) {
+    rows.push(["Household measure", formatHousehold(servingSize.household), null]);
+  }
+  const serves = servingsInPack(label);
+  if (serves != null) rows.push(["Servings per pack", serves, null]);
+  if (label.netQuantity) rows.push(["Net quantity", label.netQuantity.value, label.netQuantity.unit]);
+  if (label.density) rows.push(["Density", label.density, "g/mL"]);
+  if (Number.isFinite(customServes)) rows.push(["Serves eaten", customServes!, null]);
+  if (Number.isFinite(customGrams)) rows.push([amountEatenLabel(label), customGrams!, servingSize.unit]);
+  rows.push(["Rounding", roundingProfileLabel(rounding), null]);
+  if (dailyValues) {
+    const table = getDailyValueTable(dailyValues);
+    rows.push(["Daily values", `${table.term} from ${table.label}`, null]);
+  }
+  rows.push(["Exported", date.toISOString(), null]);
+
+  return { name: "Metadata", widths: [22, 28, 8], rows };
+}
+
+function nutrientSheet(
+  name: string,
+  label: LabelData,
+  basis: Basis,
+  customGrams: number | undefined,
+  customServes: number | undefined,
+  rounding: RoundingProfileId,
+  dailyValues: DailyValueTableId | null
+): Sheet {
+  const doc = buildJSONDocument(
+    label,
+    basis,
+    customGrams,
+    customServes,
+    basis === "custom" ? "consumption" : "label",
+    rounding,
+    dailyValues
+  );
+
+  const term = dailyValues ? getDailyValueTable(dailyValues).term : null;
+  const header: Cell[] = ["Nutrient", "Value", "Unit", "Display"];
+  if (term) header.push(term);
+  header.push("Confidence", "Source");
+
+  const rows: Cell[][] = [header];
+  for (const n of doc.nutrients) {
+    const row: Cell[] = [n.label, n.value, n.unit, n.display];
+    if (term) row.push(n.percentDailyValue ?? null);
+    row.push(n.confidence, n.source);
+    rows.push(row);
+  }
+
+  const widths = term ? [20, 10, 6, 10, 8, 12, 12] : [20, 10, 6, 10, 12, 12];
+  return { name: sheetName(name), widths, rows };
+}
+
+/* -----------------------------
+   Workbook
+------------------------------ */
+
+const STYLES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+  `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill>` +
+  `<fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+  `</styleSheet>`;
+
+/**
+ * The workbook as .xlsx bytes. Label sheets follow availableBases(label);
+ * the Consumption sheet appears whenever Review has serves or an amount.
+ */
+export function buildXLSX(
+  label: LabelData,
+  customGrams?: number,
+  customServes?: number,
+  rounding: RoundingProfileId = "default",
+  dailyValues: DailyValueTableId | null = null,
+  date: Date = new Date()
+): Uint8Array {
+  const sheets: Sheet[] = [
+    metadataSheet(label, customGrams, customServes, rounding, dailyValues, date),
+  ];
+
+  for (const basis of availableBases(label)) {
+    const name = basisLabel(basis, label);
+    sheets.push(
+      nutrientSheet(
+        name[0].toUpperCase() + name.slice(1),
+        label,
+        basis,
+        undefined,
+        undefined,
+        rounding,
+        dailyValues
+      )
+    );
+  }
+
+  if (Number.isFinite(customGrams) || Number.isFinite(customServes)) {
+    sheets.push(
+      nutrientSheet("Consumption", label, "custom", customGrams, customServes, rounding, dailyValues)
+    );
+  }
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n`;
+  const sheetEntries = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    data: sheetXml(sheet),
+  }));
+
+  return buildZip(
+    [
+      {
+        name: "[Content_Types].xml",
+        data:
+          xml +
+          `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+          `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+          `<Default Extension="xml" ContentType="application/xml"/>` +
+          `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+          `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+          sheets
+            .map(
+              (_, i) =>
+                `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+            )
+            .join("") +
+          `</Types>`,
+      },
+      {
+        name: "_rels/.rels",
+        data:
+          xml +
+          `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+          `</Relationships>`,
+      },
+      {
+        name: "xl/workbook.xml",
+        data:
+          xml +
+          `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+          `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+          sheets
+            .map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+            .join("") +
+          `</sheets></workbook>`,
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        data:
+          xml +
+          `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+          sheets
+            .map(
+              (_, i) =>
+                `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+            )
+            .join("") +
+          `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+          `</Relationships>`,
+      },
+      { name: "xl/styles.xml", data: STYLES_XML },
+      ...sheetEntries,
+    ],
+    date
+  );
+}
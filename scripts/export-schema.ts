@@ -0,0 +1,33 @@
+// scripts/export-schema.ts
+// Writes the JSON export's schema (lib/exportSchema) to schemas/ so
+// downstream tools can validate NutriCopy JSON without importing our code.
+//
+// Optional flags:
+//   --check   exit non-zero if the committed file is out of date
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { EXPORT_JSON_SCHEMA, EXPORT_JSON_VERSION } from "../lib/exportSchema";
+
+const OUT = path.join("schemas", `nutricopy-export.v${EXPORT_JSON_VERSION}.schema.json`);
+
+function main() {
+  const content = JSON.stringify(EXPORT_JSON_SCHEMA, null, 2) + "\n";
+
+  if (process.argv.includes("--check")) {
+    const current = fs.existsSync(OUT) ? fs.readFileSync(OUT, "utf8") : "";
+    if (current !== content) {
+      console.log(`${OUT} is out of date (run npm run export:schema)`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`${OUT} is up to date`);
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(OUT), { recursive: true });
+  fs.writeFileSync(OUT, content, "utf8");
+  console.log("WROTE:", OUT);
+}
+
+main();
@@ -0,0 +1,306 @@
+// scripts/ocr-eval.ts
+// Offline OCR accuracy check: replays recorded Vision responses
+// (fixtures/ocr/*.json) through ocrPost + the client mapping and scores the
+// result against the hand-annotated LabelData. No network, no OCR_key.
+// Per-serve values, printed per-100 values, the serving size and pack info
+// (servings per pack, net quantity) are scored.
+// Fixtures with an imageSha256 were recorded from a real photo; the rest
+// are synthetic and only exercise the parser.
+//
+// Optional flags:
+//   --dir <path>         fixture directory (default fixtures/ocr)
+//   --baseline <path>    baseline file (default fixtures/ocr-baseline.json)
+//   --update-baseline    overwrite the baseline with this run
+//   --verbose            print every mismatch
+//
+// Exits non-zero when a fixture regresses against the baseline.
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { LabelData, NutrientKey, NutrientValue } from "../lib/mockLabel";
+import { NUTRIENTS } from "../lib/nutrients";
+import { isOcrFixture, type OcrFixture } from "../lib/ocrFixture";
+import { ocrResultToLabelData } from "../lib/ocrLabel";
+import { ocrPost } from "../lib/ocrPost";
+
+type FixtureScore = {
+  correct: NutrientKey[];
+  wrong: NutrientKey[]; // predicted with the wrong value
+  missed: NutrientKey[]; // expected, not predicted
+  extra: NutrientKey[]; // predicted, not expected
+  per100Correct: NutrientKey[];
+  per100Expected: number; // expected values with a per100
+  servingOk: boolean;
+  packOk: boolean; // servingsPerPack + netQuantity, when expected
+};
+
+type Baseline = {
+  fixtures: Record<
+    string,
+    {
+      correct: NutrientKey[];
+      per100Correct?: NutrientKey[];
+      servingOk: boolean;
+      packOk?: boolean;
+    }
+  >;
+};
+
+const DEFAULT_DIR = "fixtures/ocr";
+const DEFAULT_BASELINE = "fixtures/ocr-baseline.json";
+
+function getArg(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const v = process.argv[idx + 1];
+  if (!v || v.startsWith("--")) return null;
+  return v;
+}
+
+function hasFlag(flag: string): boolean {
+  return process.argv.includes(flag);
+}
+
+// Label values are printed rounded, so allow a little slack
+function sameValue(actual: number, expected: number) {
+  return Math.abs(actual - expected) <= Math.max(0.05, Math.abs(expected) * 0.01);
+}
+
+function loadFixtures(dir: string): OcrFixture[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort()
+    .map((f) => {
+      const json = JSON.parse(fs.readFileSync(path.join(dir, f), "utf8"));
+      if (!isOcrFixture(json)) throw new Error(`Not an OCR fixture: ${f}`);
+      return json;
+    });
+}
+
+function scoreFixture(actual: LabelData, expected: LabelData): FixtureScore {
+  const score: FixtureScore = {
+    correct: [],
+    wrong: [],
+    missed: [],
+    extra: [],
+    per100Correct: [],
+    per100Expected: 0,
+    servingOk:
+      sameValue(actual.servingSize.value, expected.servingSize.value) &&
+      actual.servingSize.unit === expected.servingSize.unit,
+    packOk:
+      (expected.servingsPerPack == null ||
+        (actual.servingsPerPack != null &&
+          sameValue(actual.servingsPerPack, expected.servingsPerPack))) &&
+      (expected.netQuantity == null ||
+        (actual.netQuantity != null &&
+          sameValue(actual.netQuantity.value, expected.netQuantity.value) &&
+          actual.netQuantity.unit === expected.netQuantity.unit)),
+  };
+
+  for (const { key } of NUTRIENTS) {
+    const a = actual.nutrients[key];
+    const e = expected.nutrients[key];
+
+    if (a && e) {
+      if (sameValue(a.value, e.value)) score.correct.push(key);
+      else score.wrong.push(key);
+    } else if (e) {
+      score.missed.push(key);
+    } else if (a) {
+      score.extra.push(key);
+    }
+
+    if (e?.per100) {
+      score.per100Expected++;
+      if (a?.per100 && sameValue(a.per100.value, e.per100.value)) score.per100Correct.push(key);
+    }
+  }
+
+  return score;
+}
+
+function ratio(n: number, d: number) {
+  return d ? `${((n / d) * 100).toFixed(1)}%` : "n/a";
+}
+
+function main() {
+  const dir = getArg("--dir") ?? DEFAULT_DIR;
+  const baselinePath = getArg("--baseline") ?? DEFAULT_BASELINE;
+  const verbose = hasFlag("--verbose");
+
+  const fixtures = loadFixtures(dir);
+  if (!fixtures.length) {
+    console.log("No fixtures in", dir);
+    return;
+  }
+
+  const scores: Record<string, FixtureScore> = {};
+  const recorded = fixtures.filter((fx) => fx.imageSha256).length;
+
+  for (const fx of fixtures) {
+    const actual = ocrResultToLabelData(ocrPost(fx.vision));
+    const s = scoreFixture(actual, fx.expected);
+    scores[fx.name] = s;
+
+    console.log(
+      `${fx.name}: ${s.correct.length} correct, ${s.wrong.length} wrong, ` +
+        `${s.missed.length} missed, ${s.extra.length} extra, ` +
+        `per 100 ${s.per100Correct.length}/${s.per100Expected}, serving ${s.servingOk ? "ok" : "WRONG"}, ` +
+        `pack ${s.packOk ? "ok" : "WRONG"}` +
+        (fx.imageSha256 ? "" : " (synthetic)")
+    );
+
+    if (verbose) {
+      for (const key of s.wrong) {
+        console.log(
+          `  wrong  ${key}: got ${actual.nutrients[key]?.value}, expected ${fx.expected.nutrients[key]?.value}`
+        );
+      }
+      for (const key of s.missed) console.log(`  missed ${key}`);
+      for (const key of s.extra) console.log(`  extra  ${key}: ${actual.nutrients[key]?.value}`);
+      for (const [key, e] of Object.entries(fx.expected.nutrients) as [NutrientKey, NutrientValue][]) {
+        if (e.per100 && !s.per100Correct.includes(key)) {
+          console.log(`  per100 ${key}: got ${actual.nutrients[key]?.per100?.value}, expected ${e.per100.value}`);
+        }
+      }
+      if (!s.servingOk) console.log("  serving", actual.servingSize, "expected", fx.expected.servingSize);
+      if (!s.packOk) {
+        console.log(
+          "  pack",
+          { servingsPerPack: actual.servingsPerPack, netQuantity: actual.netQuantity },
+          "expected",
+          { servingsPerPack: fx.expected.servingsPerPack, netQuantity: fx.expected.netQuantity }
+        );
+      }
+    }
+  }
+
+  /* ---- Per-nutrient precision / recall ---- */
+  // A wrong value counts against both: it is a bad prediction and a miss.
+
+  console.log("\nNUTRIENT            PRECISION  RECALL");
+  let tpAll = 0;
+  let fpAll = 0;
+  let fnAll = 0;
+
+  for (const { key } of NUTRIENTS) {
+    let tp = 0;
+    let fp = 0;
+    let fn = 0;
+
+    for (const s of Object.values(scores)) {
+      if (s.correct.includes(key)) tp++;
+      if (s.wrong.includes(key)) {
+        fp++;
+        fn++;
+      }
+      if (s.extra.includes(key)) fp++;
+      if (s.missed.includes(key)) fn++;
+    }
+
+    tpAll += tp;
+    fpAll += fp;
+    fnAll += fn;
+
+    if (tp + fp + fn === 0) continue;
+    console.log(
+      `${key.padEnd(20)}${ratio(tp, tp + fp).padStart(9)}  ${ratio(tp, tp + fn).padStart(6)}`
+    );
+  }
+
+  console.log(
+    `${"ALL".padEnd(20)}${ratio(tpAll, tpAll + fpAll).padStart(9)}  ${ratio(tpAll, tpAll + fnAll).padStart(6)}`
+  );
+
+  let per100Ok = 0;
+  let per100All = 0;
+  for (const s of Object.values(scores)) {
+    per100Ok += s.per100Correct.length;
+    per100All += s.per100Expected;
+  }
+  console.log(`\nPER 100 VALUES: ${per100Ok}/${per100All} (${ratio(per100Ok, per100All)})`);
+
+  const servingOk = Object.values(scores).filter((s) => s.servingOk).length;
+  console.log(`SERVING SIZE: ${servingOk}/${fixtures.length} (${ratio(servingOk, fixtures.length)})`);
+  const packOk = Object.values(scores).filter((s) => s.packOk).length;
+  console.log(`PACK INFO: ${packOk}/${fixtures.length} (${ratio(packOk, fixtures.length)})`);
+
+  console.log(`RECORDED FIXTURES: ${recorded}/${fixtures.length}`);
+  if (!recorded) {
+    console.log(
+      "  Synthetic fixtures only: this checks the parser, not real OCR quality.\n" +
+        "  Record one with: npx tsx scripts/ocr-run.ts <photo> --record <name>"
+    );
+  }
+
+  /* ---- Baseline ---- */
+
+  if (hasFlag("--update-baseline")) {
+    const baseline: Baseline = { fixtures: {} };
+    for (const [name, s] of Object.entries(scores)) {
+      baseline.fixtures[name] = {
+        correct: s.correct,
+        per100Correct: s.per100Correct,
+        servingOk: s.servingOk,
+        packOk: s.packOk,
+      };
+    }
+    fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + "\n", "utf8");
+    console.log("\nWROTE BASELINE:", baselinePath);
+    return;
+  }
+
+  if (!fs.existsSync(baselinePath)) {
+    console.log("\nNo baseline at", baselinePath, "(run with --update-baseline)");
+    return;
+  }
+
+  const baseline: Baseline = JSON.parse(fs.readFileSync(baselinePath, "utf8"));
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  for (const [name, s] of Object.entries(scores)) {
+    const before = baseline.fixtures[name];
+    if (!before) {
+      improvements.push(`${name}: new fixture`);
+      continue;
+    }
+
+    for (const key of before.correct) {
+      if (!s.correct.includes(key)) regressions.push(`${name}: ${key}`);
+    }
+    for (const key of s.correct) {
+      if (!before.correct.includes(key)) improvements.push(`${name}: ${key}`);
+    }
+    for (const key of before.per100Correct ?? []) {
+      if (!s.per100Correct.includes(key)) regressions.push(`${name}: ${key} per 100`);
+    }
+    for (const key of s.per100Correct) {
+      if (!before.per100Correct?.includes(key)) improvements.push(`${name}: ${key} per 100`);
+    }
+    if (before.servingOk && !s.servingOk) regressions.push(`${name}: serving size`);
+    if (!before.servingOk && s.servingOk) improvements.push(`${name}: serving size`);
+    if (before.packOk && !s.packOk) regressions.push(`${name}: pack info`);
+    if (before.packOk === false && s.packOk) improvements.push(`${name}: pack info`);
+  }
+
+  if (improvements.length) {
+    console.log("\nIMPROVED vs baseline:");
+    for (const r of improvements) console.log(`+ ${r}`);
+  }
+
+  if (regressions.length) {
+    console.log("\nREGRESSED vs baseline:");
+    for (const r of regressions) console.log(`- ${r}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("\nNo regressions vs baseline");
+}
+
+main();
@@ -6,12 +6,17 @@
 //   --items        prints first N OCR items
 //   --n <number>   sets how many candidates/items to print (default 25)
 //   --out <path>   writes a JSON dump to a file (opt-in)
+//   --record <name> writes fixtures/ocr/<name>.json (raw Vision response +
+//                  parser output as a draft `expected`; correct it by hand)
 
-import dotenv from "dotenv";
+import * as dotenv from "dotenv";
 dotenv.config({ path: ".env" });
 
-import fs from "node:fs";
-import { extractLabeledValueUnitCandidates, extractLabelRows } from "../lib/ocrPost";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { buildOcrFixture } from "../lib/ocrFixture";
+import { ocrResultToLabelData } from "../lib/ocrLabel";
+import { extractLabeledValueUnitCandidates, extractLabelRows, ocrPost } from "../lib/ocrPost";
 import { extractRawTextFromImage } from "../lib/ocrTest";
 
 function getArg(flag: string): string | null {
@@ -37,6 +42,7 @@ async function main() {
   const printFull = hasFlag("--full");
   const printItems = hasFlag("--items");
   const outPath = getArg("--out");
+  const recordName = getArg("--record");
 
   const n = clampInt(Number(getArg("--n") ?? 25), 1, 200);
 
@@ -89,6 +95,22 @@ async function main() {
     fs.writeFileSync(outPath, JSON.stringify(dump, null, 2), "utf8");
     console.log("\nWROTE:", outPath);
   }
+
+  // Optional fixture recording (opt-in)
+  if (recordName) {
+    if (!out.response) throw new Error("Vision returned no response to record.");
+
+    const fixture = buildOcrFixture(
+      recordName,
+      { imageSha256: out.imageSha256, vision: out.response },
+      ocrResultToLabelData(ocrPost(out.response)),
+      `Recorded from ${path.basename(imagePath)}. expected is parser output: check it against the label before committing.`
+    );
+
+    const fixturePath = path.join("fixtures", "ocr", `${fixture.name}.json`);
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+    console.log("\nRECORDED:", fixturePath);
+  }
 }
 
 main().catch((e) => {